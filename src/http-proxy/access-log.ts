@@ -0,0 +1,183 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Socket } from "net";
+import type { Duplex } from "stream";
+import { performance } from "perf_hooks";
+import { upstreamKey } from "./common";
+import type { UpstreamRequest } from "./http2";
+
+export type LogMethod = (obj: object, msg?: string) => void;
+
+export type Logger = {
+  error: LogMethod;
+  warn?: LogMethod;
+  info: LogMethod;
+  debug?: LogMethod;
+};
+
+/**
+ * Durations in milliseconds. `dns`, `connect` and `tls` are only known for
+ * requests that opened a new connection, `firstByte` counts from the start
+ * of the (last) attempt, `total` from the start of the request.
+ */
+export type UpstreamTimings = {
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  firstByte?: number;
+  total?: number;
+};
+
+export type AccessLogEntry = {
+  type: "web" | "ws";
+  method: string;
+  url: string;
+  rewrittenUrl?: string;
+  target?: string;
+  status?: number;
+  bytesIn: number;
+  bytesOut: number;
+  timings: UpstreamTimings;
+  error?: string;
+};
+
+function round(ms: number) {
+  return Math.round(ms * 1000) / 1000;
+}
+
+/**
+ * What is known about one proxied request, for the access log and the
+ * timings of the `end` event. It is created when the request enters the
+ * proxy, so that requests answered by a pass are logged too.
+ *
+ * @api private
+ */
+
+export class RequestRecord {
+  start = performance.now();
+  timings: UpstreamTimings = {};
+  bytesIn = 0;
+  bytesOut = 0;
+  error: NodeJS.ErrnoException | undefined;
+  target: any;
+  rewrittenUrl: string | undefined;
+  // status of websocket upgrades, which have no response to read it from
+  status: number | undefined;
+
+  /**
+   * Takes the timings of an attempt from its socket events.
+   *
+   * @param {ClientRequest} UpstreamReq Request to the target
+   *
+   * @api private
+   */
+
+  trackAttempt(upstreamReq: UpstreamRequest) {
+    const attemptStart = performance.now();
+    let mark = attemptStart;
+    const lap = () => {
+      const now = performance.now();
+      const elapsed = round(now - mark);
+      mark = now;
+      return elapsed;
+    };
+
+    upstreamReq.once("socket", (socket: Socket) => {
+      // a reused keep-alive socket is connected already
+      if (!socket.connecting) return;
+      socket.once("lookup", () => {
+        this.timings.dns = lap();
+      });
+      socket.once("connect", () => {
+        this.timings.connect = lap();
+      });
+      socket.once("secureConnect", () => {
+        this.timings.tls = lap();
+      });
+    });
+    upstreamReq.once("response", () => {
+      this.timings.firstByte = round(performance.now() - attemptStart);
+    });
+  }
+
+  countIn(source: NodeJS.ReadableStream) {
+    source.on("data", (chunk) => {
+      this.bytesIn += chunk.length;
+    });
+  }
+
+  countOut(source: NodeJS.ReadableStream) {
+    source.on("data", (chunk) => {
+      this.bytesOut += chunk.length;
+    });
+  }
+
+  /**
+   * Stops the clock, unless it was stopped already.
+   *
+   * @return {Object} The timings
+   *
+   * @api private
+   */
+
+  finish(): UpstreamTimings {
+    if (this.timings.total === undefined) {
+      this.timings.total = round(performance.now() - this.start);
+    }
+    return this.timings;
+  }
+
+  /**
+   * Logs the access log entry of the request once the response, or the
+   * socket of a websocket, is closed.
+   *
+   * @param {String} Type `web` or `ws`
+   * @param {ClientRequest} Req Request object
+   * @param {ServerResponse|Socket} Res Response object, or the socket
+   * @param {Object} Logger Logger the entry goes to
+   *
+   * @api private
+   */
+
+  logOnClose(
+    type: "web" | "ws",
+    req: IncomingMessage,
+    res: ServerResponse | Duplex,
+    logger: Logger
+  ) {
+    if (!res || typeof res.once !== "function") return;
+    res.once("close", () => {
+      const status =
+        "writeHead" in res
+          ? res.headersSent
+            ? res.statusCode
+            : undefined
+          : this.status;
+      logger.info(this.entry(type, req, status), "access");
+    });
+  }
+
+  /**
+   * Builds the access log entry of the request.
+   *
+   * @api private
+   */
+
+  entry(
+    type: "web" | "ws",
+    req: IncomingMessage,
+    status: number | undefined
+  ): AccessLogEntry {
+    return {
+      type,
+      method: req.method,
+      url: req.url,
+      rewrittenUrl: this.rewrittenUrl,
+      target: this.target ? upstreamKey(this.target) : undefined,
+      status,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      timings: { ...this.finish() },
+      error: this.error && (this.error.code || this.error.message),
+    };
+  }
+}
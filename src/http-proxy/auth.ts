@@ -0,0 +1,351 @@
+import crypto, { KeyObject } from "crypto";
+import fs from "fs";
+import { IncomingMessage } from "http";
+
+export type AuthScheme = "basic" | "bearer" | "jwt";
+
+/**
+ * Who a request was authenticated as. `claims` are those of the JWT, or
+ * whatever the validator returned.
+ */
+export type Identity = {
+  scheme: AuthScheme;
+  subject: string | undefined;
+  claims: Record<string, any>;
+};
+
+type Claims = Record<string, any>;
+
+/**
+ * Validators reject credentials by returning a falsy value, and accept
+ * them with `true` or with claims about the client, `sub` naming it.
+ */
+type Validated = boolean | Claims | null | undefined;
+
+export type BasicAuthOptions = {
+  users?: Record<string, string>;
+  validate?: (
+    user: string,
+    password: string,
+    req: IncomingMessage
+  ) => Validated | Promise<Validated>;
+};
+
+export type BearerAuthOptions = {
+  validate: (
+    token: string,
+    req: IncomingMessage
+  ) => Validated | Promise<Validated>;
+};
+
+/**
+ * Verifies JWTs locally, signed with HS256 with `secret` or with RS256
+ * with `publicKey` or one of the keys of the `jwksFile`. `claims` have to
+ * be equal to the given values, contain them if lists, or pass the given
+ * functions.
+ */
+export type JwtAuthOptions = {
+  secret?: string | Buffer;
+  publicKey?: string | Buffer | KeyObject;
+  jwksFile?: string;
+  issuer?: string | string[];
+  audience?: string | string[];
+  claims?: Record<string, any>;
+  clockTolerance?: number;
+};
+
+export type IdentityHeader = string | ((identity: Identity) => any);
+
+export type AuthenticateOptions = {
+  basic?: BasicAuthOptions;
+  bearer?: BearerAuthOptions;
+  jwt?: JwtAuthOptions;
+  realm?: string;
+  headers?: Record<string, IdentityHeader>;
+};
+
+/**
+ * Why a request was not let through: `EAUTHREQUIRED` without supported
+ * credentials, `EAUTHINVALID` with wrong ones (401) and `EAUTHFORBIDDEN`
+ * when claims were rejected (403).
+ *
+ * @api private
+ */
+
+export class AuthError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 401) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const invalid = (message: string) => new AuthError(message, "EAUTHINVALID");
+
+function base64url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+/**
+ * Compares secrets in constant time, whatever their lengths.
+ *
+ * @api private
+ */
+
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+function identity(
+  scheme: AuthScheme,
+  validated: Validated,
+  subject?: string
+): Identity {
+  if (!validated) throw invalid("Invalid credentials");
+  const claims = validated === true ? {} : validated;
+  return { scheme, subject: claims.sub || subject, claims };
+}
+
+function claimMatches(expected, value): boolean {
+  if (typeof expected === "function") return !!expected(value);
+  if (Array.isArray(expected)) {
+    return []
+      .concat(value === undefined ? [] : value)
+      .some((item) => expected.includes(item));
+  }
+  return value === expected;
+}
+
+/**
+ * Authenticates requests by their `Authorization` header: `Basic`
+ * credentials against the `users` or a validator, and `Bearer` tokens
+ * verified as JWTs (if `jwt` is set and the token looks like one) or by
+ * the `bearer` validator.
+ *
+ * @api private
+ */
+
+export class Authenticator {
+  options: AuthenticateOptions;
+  keys: Map<string, KeyObject> = new Map();
+  headers: Record<string, IdentityHeader>;
+
+  constructor(options: AuthenticateOptions) {
+    this.options = options;
+    this.headers = options.headers || { "x-auth-user": "subject" };
+
+    const jwt = options.jwt;
+    if (jwt?.publicKey) {
+      this.keys.set(
+        "",
+        jwt.publicKey instanceof KeyObject
+          ? jwt.publicKey
+          : crypto.createPublicKey(jwt.publicKey)
+      );
+    }
+    if (jwt?.jwksFile) {
+      const jwks = JSON.parse(fs.readFileSync(jwt.jwksFile, "utf8"));
+      jwks.keys
+        .filter((jwk) => jwk.kty === "RSA" && (!jwk.use || jwk.use === "sig"))
+        .forEach((jwk, i) =>
+          this.keys.set(
+            jwk.kid || String(i),
+            crypto.createPublicKey({ key: jwk, format: "jwk" })
+          )
+        );
+    }
+  }
+
+  /**
+   * Authenticates a request, removing the identity headers it came with.
+   *
+   * @param {IncomingMessage} Req Request object
+   *
+   * @return {Promise} The identity, or rejected with an `AuthError`
+   *
+   * @api private
+   */
+
+  authenticate(req: IncomingMessage): Promise<Identity> {
+    // only the proxy may set them
+    Object.keys(this.headers).forEach(
+      (name) => delete req.headers[name.toLowerCase()]
+    );
+
+    return Promise.resolve().then(() => {
+      const [scheme, credentials] = String(req.headers.authorization || "")
+        .trim()
+        .split(/\s+/, 2);
+      if (!credentials) {
+        throw new AuthError("Missing credentials", "EAUTHREQUIRED");
+      }
+
+      switch (scheme.toLowerCase()) {
+        case "basic":
+          if (this.options.basic) return this.basic(credentials, req);
+          break;
+        case "bearer":
+          if (this.options.jwt && credentials.split(".").length === 3) {
+            return this.jwt(credentials);
+          }
+          if (this.options.bearer) {
+            return Promise.resolve(
+              this.options.bearer.validate(credentials, req)
+            ).then((validated) => identity("bearer", validated));
+          }
+          break;
+      }
+      throw new AuthError("Unsupported credentials", "EAUTHREQUIRED");
+    });
+  }
+
+  basic(credentials: string, req: IncomingMessage): Promise<Identity> {
+    const decoded = Buffer.from(credentials, "base64").toString();
+    const separator = decoded.indexOf(":");
+    if (separator === -1) throw invalid("Malformed credentials");
+    const user = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+
+    const { users, validate } = this.options.basic;
+    if (users && Object.prototype.hasOwnProperty.call(users, user)) {
+      if (safeEqual(users[user], password)) {
+        return Promise.resolve(identity("basic", true, user));
+      }
+    }
+    if (!validate) return Promise.reject(invalid("Invalid credentials"));
+    return Promise.resolve(validate(user, password, req)).then((validated) =>
+      identity("basic", validated, user)
+    );
+  }
+
+  /**
+   * Verifies the signature and the claims of a JWT.
+   *
+   * @api private
+   */
+
+  jwt(token: string): Identity {
+    const options = this.options.jwt;
+    const [encodedHeader, encodedPayload, signature] = token.split(".");
+    let header;
+    let claims: Claims;
+    try {
+      header = JSON.parse(base64url(encodedHeader).toString());
+      claims = JSON.parse(base64url(encodedPayload).toString());
+    } catch (err) {
+      throw invalid("Malformed token");
+    }
+    if (!header || !claims || typeof claims !== "object") {
+      throw invalid("Malformed token");
+    }
+
+    const signed = encodedHeader + "." + encodedPayload;
+    const given = base64url(signature);
+    if (header.alg === "HS256" && options.secret) {
+      const expected = crypto
+        .createHmac("sha256", options.secret)
+        .update(signed)
+        .digest();
+      if (
+        expected.length !== given.length ||
+        !crypto.timingSafeEqual(expected, given)
+      ) {
+        throw invalid("Invalid signature");
+      }
+    } else if (header.alg === "RS256" && this.keys.size) {
+      const key =
+        this.keys.get(header.kid || "") ||
+        (this.keys.size === 1 && !header.kid
+          ? this.keys.values().next().value
+          : undefined);
+      if (
+        !key ||
+        !crypto.verify("RSA-SHA256", Buffer.from(signed), key, given)
+      ) {
+        throw invalid("Invalid signature");
+      }
+    } else {
+      throw invalid("Unsupported algorithm");
+    }
+
+    const now = Date.now() / 1000;
+    const tolerance = options.clockTolerance || 0;
+    if (typeof claims.exp === "number" && now > claims.exp + tolerance) {
+      throw invalid("Token expired");
+    }
+    if (typeof claims.nbf === "number" && now < claims.nbf - tolerance) {
+      throw invalid("Token not yet valid");
+    }
+    if (
+      options.issuer &&
+      !claimMatches([].concat(options.issuer), claims.iss)
+    ) {
+      throw invalid("Invalid issuer");
+    }
+    if (
+      options.audience &&
+      !claimMatches([].concat(options.audience), claims.aud)
+    ) {
+      throw invalid("Invalid audience");
+    }
+    const claimChecks = options.claims || {};
+    Object.keys(claimChecks).forEach((name) => {
+      if (!claimMatches(claimChecks[name], claims[name])) {
+        throw new AuthError(
+          "Claim " + name + " rejected",
+          "EAUTHFORBIDDEN",
+          403
+        );
+      }
+    });
+    return identity("jwt", claims);
+  }
+
+  /**
+   * Sets the identity headers of the request to the target.
+   *
+   * @api private
+   */
+
+  forward(req: IncomingMessage, identity: Identity) {
+    Object.keys(this.headers).forEach((name) => {
+      const header = this.headers[name];
+      const value =
+        typeof header === "function"
+          ? header(identity)
+          : header
+              .split(".")
+              .reduce(
+                (value, key) => (value == null ? value : value[key]),
+                identity
+              );
+      if (value === undefined || value === null) return;
+      req.headers[name.toLowerCase()] =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  /**
+   * The `WWW-Authenticate` challenges of the configured schemes.
+   *
+   * @api private
+   */
+
+  challenges(err: AuthError): string[] {
+    const realm = 'realm="' + (this.options.realm || "proxy") + '"';
+    const challenges = [];
+    if (this.options.basic) challenges.push("Basic " + realm);
+    if (this.options.bearer || this.options.jwt) {
+      challenges.push(
+        "Bearer " +
+          realm +
+          (err.code === "EAUTHINVALID" ? ', error="invalid_token"' : "")
+      );
+    }
+    return challenges;
+  }
+}
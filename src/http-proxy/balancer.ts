@@ -0,0 +1,193 @@
+import url, { UrlWithStringQuery } from "url";
+import type { IncomingMessage } from "http";
+import { upstreamKey } from "./common";
+
+export type TargetUrl = string | UrlWithStringQuery;
+
+export type Upstream = {
+  target: TargetUrl;
+  weight?: number;
+};
+
+export type PoolMember = {
+  key: string;
+  target: UrlWithStringQuery;
+  weight: number;
+  outstanding: number;
+  currentWeight: number;
+};
+
+export type BalancerSelector = (
+  upstreams: PoolMember[],
+  req: IncomingMessage
+) => PoolMember | undefined;
+
+export type BalancerStrategy =
+  | "round-robin"
+  | "weighted"
+  | "least-outstanding"
+  | "random";
+
+function toUpstream(entry: TargetUrl | Upstream): Upstream {
+  return typeof entry === "object" && "target" in entry
+    ? (entry as Upstream)
+    : { target: entry as TargetUrl };
+}
+
+/**
+ * Parses one entry of a `target` list into a pool member.
+ *
+ * @param {String|Object} Entry url string, url object or `{ target, weight }`
+ *
+ * @return {Object} Member with parsed target and default counters
+ *
+ * @api private
+ */
+
+function toMember(entry: TargetUrl | Upstream): PoolMember {
+  const upstream = toUpstream(entry);
+  const target =
+    typeof upstream.target === "string"
+      ? url.parse(upstream.target)
+      : upstream.target;
+  const weight = upstream.weight === undefined ? 1 : upstream.weight;
+
+  return {
+    key: upstreamKey(target),
+    target,
+    weight: weight > 0 ? weight : 0,
+    outstanding: 0,
+    currentWeight: 0,
+  };
+}
+
+/**
+ * Identifies a `target` list by its urls and weights, without parsing it,
+ * so that requests using the same list share one pool.
+ *
+ * @param {Array} Entries List of urls or `{ target, weight }` objects
+ *
+ * @return {String} Key of the list
+ *
+ * @api private
+ */
+
+export function poolKey(entries: Array<TargetUrl | Upstream>): string {
+  return entries
+    .map((entry) => {
+      const upstream = toUpstream(entry);
+      const target =
+        typeof upstream.target === "string"
+          ? upstream.target
+          : upstreamKey(upstream.target) + (upstream.target.path || "");
+      const weight = upstream.weight === undefined ? 1 : upstream.weight;
+      return target + "*" + weight;
+    })
+    .join(",");
+}
+
+/**
+ * A list of upstreams behind a single `target` option, together with the
+ * bookkeeping every selection strategy needs (rotation, weights and
+ * outstanding requests).
+ *
+ * Examples:
+ *
+ *    const pool = new TargetPool(["http://a:80", { target: "http://b:80", weight: 3 }])
+ *    pool.pick(req, "weighted")
+ *    // => { key: "http://b:80", target: { ... }, weight: 3, ... }
+ *
+ * @api private
+ */
+
+export class TargetPool {
+  members: PoolMember[];
+  private cursor = 0;
+
+  constructor(entries: Array<TargetUrl | Upstream>) {
+    this.members = entries.map(toMember);
+  }
+
+  /**
+   * Selects the upstream that should receive `req`.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {String|Function} Strategy Name of a built-in strategy or a selector
+   * @param {Function} Filter Optional predicate to exclude members (e.g. unhealthy ones)
+   *
+   * @return {Object} The chosen member, `undefined` if none is eligible
+   *
+   * @api private
+   */
+
+  pick(
+    req: IncomingMessage,
+    strategy: BalancerStrategy | BalancerSelector = "round-robin",
+    filter?: (member: PoolMember) => boolean
+  ): PoolMember | undefined {
+    const candidates = this.members.filter(
+      (member) => member.weight > 0 && (!filter || filter(member))
+    );
+    if (!candidates.length) return;
+
+    if (typeof strategy === "function") {
+      const chosen = strategy(candidates, req);
+      return chosen && this.members.includes(chosen) ? chosen : undefined;
+    }
+
+    switch (strategy) {
+      case "weighted":
+        return this.pickWeighted(candidates);
+      case "least-outstanding":
+        return this.pickLeastOutstanding(candidates);
+      case "random":
+        return candidates[Math.floor(Math.random() * candidates.length)];
+      case "round-robin":
+        return candidates[this.cursor++ % candidates.length];
+      default:
+        throw new Error("Unknown balancer strategy `" + strategy + "`");
+    }
+  }
+
+  acquire(member: PoolMember) {
+    member.outstanding++;
+  }
+
+  release(member: PoolMember) {
+    if (member.outstanding > 0) member.outstanding--;
+  }
+
+  //
+  // Smooth weighted round-robin (same scheme nginx uses): every member gains
+  // its weight on each pick and the winner pays back the total, so heavy
+  // members are interleaved with light ones instead of picked in bursts.
+  //
+  private pickWeighted(candidates: PoolMember[]) {
+    let total = 0;
+    let best: PoolMember;
+    candidates.forEach((member) => {
+      member.currentWeight += member.weight;
+      total += member.weight;
+      if (!best || member.currentWeight > best.currentWeight) best = member;
+    });
+    best.currentWeight -= total;
+    return best;
+  }
+
+  private pickLeastOutstanding(candidates: PoolMember[]) {
+    // Rotate the starting point so ties are spread instead of always
+    // landing on the first member.
+    const offset = this.cursor++ % candidates.length;
+    let best: PoolMember;
+    for (let i = 0; i < candidates.length; i++) {
+      const member = candidates[(offset + i) % candidates.length];
+      if (
+        !best ||
+        member.outstanding / member.weight < best.outstanding / best.weight
+      ) {
+        best = member;
+      }
+    }
+    return best;
+  }
+}
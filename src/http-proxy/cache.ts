@@ -0,0 +1,648 @@
+import http, {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from "http";
+import https from "https";
+import { UrlWithStringQuery } from "url";
+import { proxyOptions } from "../index";
+import {
+  copyOf,
+  outgoingPath,
+  setupOutgoing,
+  upstreamKey,
+  withoutHopByHop,
+} from "./common";
+import { applyHeaderRules } from "./header-rules";
+import { setCorsHeaders } from "./cors";
+
+export type CacheStatus = "HIT" | "MISS" | "STALE";
+
+/**
+ * A stored response, with the headers of the target but for hop-by-hop
+ * ones: those the proxy sets belong to each request. `requestTime`
+ * and `responseTime` are in millis, `vary` holds the values of the request
+ * headers named by `Vary`.
+ */
+export type CacheEntry = {
+  status: number;
+  headers: OutgoingHttpHeaders;
+  body: Buffer;
+  requestTime: number;
+  responseTime: number;
+  vary: Record<string, string>;
+};
+
+/**
+ * Where responses are kept, by key. Each method may return a promise; a
+ * store failing to get an entry is taken as a miss.
+ */
+export type CacheStore = {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+};
+
+export type CacheOptions = {
+  store?: CacheStore;
+  maxEntries?: number;
+  maxBodySize?: number;
+};
+
+type Directives = Record<string, string | true>;
+
+// status codes that may be stored without explicit freshness
+const STORABLE_STATUS = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE"];
+// headers of a response that are not stored, or computed when serving it
+const UNSTORED_HEADERS = [
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "content-length",
+  "age",
+  "x-cache",
+  "ratelimit-limit",
+  "ratelimit-remaining",
+  "ratelimit-reset",
+  "ratelimit-policy",
+];
+
+/**
+ * An LRU store keeping the `maxEntries` most recently used responses in
+ * memory.
+ *
+ * @api private
+ */
+
+export class MemoryStore {
+  entries: Map<string, CacheEntry> = new Map();
+  maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Parses a `Cache-Control` header into its lowercased directives, `true`
+ * for those without a value.
+ *
+ * @api private
+ */
+
+function directives(header: string | string[] | number | undefined) {
+  const result: Directives = {};
+  String([].concat(header === undefined ? [] : header))
+    .split(",")
+    .forEach((part) => {
+      const [name, value] = part.split("=");
+      if (!name.trim()) return;
+      result[name.trim().toLowerCase()] =
+        value === undefined ? true : value.trim().replace(/^"|"$/g, "");
+    });
+  return result;
+}
+
+function requestDirectives(req: IncomingMessage): Directives {
+  if (req.headers["cache-control"] === undefined) {
+    return /no-cache/i.test(String(req.headers.pragma))
+      ? { "no-cache": true }
+      : {};
+  }
+  return directives(req.headers["cache-control"]);
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * How long, in seconds, a response is fresh for: its `s-maxage`, its
+ * `max-age` or the time from its `Date` to its `Expires`. No heuristic
+ * freshness is assumed.
+ *
+ * @api private
+ */
+
+function freshnessLifetime(headers: OutgoingHttpHeaders, responseTime: number) {
+  const cc = directives(headers["cache-control"]);
+  const maxAge = seconds(cc["s-maxage"]);
+  if (maxAge !== undefined) return maxAge;
+  if (seconds(cc["max-age"]) !== undefined) return seconds(cc["max-age"]);
+  if (headers.expires === undefined) return 0;
+  const expires = Date.parse(String(headers.expires));
+  const date = Date.parse(String(headers.date));
+  if (isNaN(expires)) return 0;
+  return Math.max(0, (expires - (isNaN(date) ? responseTime : date)) / 1000);
+}
+
+/**
+ * The age of a stored response in seconds, as of RFC 9111 section 4.2.3.
+ *
+ * @api private
+ */
+
+function currentAge(entry: CacheEntry): number {
+  const ageValue = seconds(String(entry.headers.age)) || 0;
+  const date = Date.parse(String(entry.headers.date));
+  const apparentAge = isNaN(date)
+    ? 0
+    : Math.max(0, (entry.responseTime - date) / 1000);
+  const responseDelay = (entry.responseTime - entry.requestTime) / 1000;
+  return (
+    Math.max(apparentAge, ageValue + responseDelay) +
+    (Date.now() - entry.responseTime) / 1000
+  );
+}
+
+/**
+ * The values of the request headers a response varies on, those named by
+ * its `Vary` and the `extra` ones, or `null` for `Vary: *`.
+ *
+ * @api private
+ */
+
+function varyValues(
+  headers: OutgoingHttpHeaders | IncomingHttpHeaders,
+  req: IncomingMessage,
+  extra: string[] = []
+): Record<string, string> | null {
+  const values: Record<string, string> = {};
+  const names = String([].concat(headers.vary || []))
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .concat(extra);
+  if (names.includes("*")) return null;
+  names.forEach((name) => {
+    values[name] = String([].concat(req.headers[name] || []));
+  });
+  return values;
+}
+
+function varyMatches(entry: CacheEntry, req: IncomingMessage): boolean {
+  return Object.keys(entry.vary).every(
+    (name) => String([].concat(req.headers[name] || [])) === entry.vary[name]
+  );
+}
+
+/**
+ * Whether a response to `req` may be stored by a shared cache.
+ *
+ * @api private
+ */
+
+function storable(req: IncomingMessage, upstreamRes: IncomingMessage) {
+  const { statusCode, headers } = upstreamRes;
+  const cc = directives(headers["cache-control"]);
+  if (req.method !== "GET" || statusCode === 206 || statusCode === 304) {
+    return false;
+  }
+  if (requestDirectives(req)["no-store"] || cc["no-store"] || cc.private) {
+    return false;
+  }
+  // cookies are for a single client
+  if (headers["set-cookie"]) return false;
+  if (
+    req.headers.authorization &&
+    !cc.public &&
+    !cc["s-maxage"] &&
+    !cc["must-revalidate"]
+  ) {
+    return false;
+  }
+  const explicit =
+    cc["s-maxage"] !== undefined ||
+    cc["max-age"] !== undefined ||
+    headers.expires !== undefined;
+  if (!explicit && !STORABLE_STATUS.includes(statusCode)) return false;
+  // without freshness nor validators it could never be served
+  return (
+    freshnessLifetime(headers, Date.now()) > 0 ||
+    !!(headers.etag || headers["last-modified"])
+  );
+}
+
+/**
+ * Returns `entry` updated with the headers of a `304` revalidating it.
+ *
+ * @api private
+ */
+
+function refreshed(
+  entry: CacheEntry,
+  headers: IncomingHttpHeaders,
+  requestTime: number
+): CacheEntry {
+  const updated = { ...entry.headers };
+  headers = withoutHopByHop(headers);
+  Object.keys(headers).forEach((name) => {
+    if (!UNSTORED_HEADERS.includes(name)) updated[name] = headers[name];
+  });
+  return {
+    ...entry,
+    headers: updated,
+    requestTime,
+    responseTime: Date.now(),
+  };
+}
+
+function conditionalHeaders(entry: CacheEntry): OutgoingHttpHeaders {
+  const headers: OutgoingHttpHeaders = {};
+  if (entry.headers.etag) headers["if-none-match"] = entry.headers.etag;
+  if (entry.headers["last-modified"]) {
+    headers["if-modified-since"] = entry.headers["last-modified"];
+  }
+  return headers;
+}
+
+/**
+ * Whether the conditional headers of `req` match `entry`, which can then
+ * be answered with a `304`.
+ *
+ * @api private
+ */
+
+function notModified(req: IncomingMessage, entry: CacheEntry): boolean {
+  if (entry.status !== 200) return false;
+  const weak = (tag) => String(tag).trim().replace(/^W\//, "");
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch !== undefined) {
+    return (
+      entry.headers.etag !== undefined &&
+      ifNoneMatch
+        .split(",")
+        .some(
+          (tag) => tag.trim() === "*" || weak(tag) === weak(entry.headers.etag)
+        )
+    );
+  }
+  const since = Date.parse(String(req.headers["if-modified-since"]));
+  const modified = Date.parse(String(entry.headers["last-modified"]));
+  return !isNaN(since) && !isNaN(modified) && modified <= since;
+}
+
+/**
+ * The cache lookup of a GET or HEAD request, made by the `cache` pass. It
+ * answers the request when the stored response may be used, and is
+ * otherwise left in `options.cacheLookup` for `stream`, which hands it the
+ * response of the target to be revalidated against or stored.
+ *
+ * @api private
+ */
+
+export class CacheLookup {
+  cache: HttpCache;
+  req: IncomingMessage;
+  proxyOptions: proxyOptions;
+  key: string;
+  entry: CacheEntry | undefined;
+  requestTime: number = Date.now();
+  conditional = false;
+
+  constructor(
+    cache: HttpCache,
+    req: IncomingMessage,
+    options: proxyOptions,
+    key: string,
+    entry: CacheEntry | undefined
+  ) {
+    this.cache = cache;
+    this.req = req;
+    this.proxyOptions = options;
+    this.key = key;
+    this.entry = entry;
+  }
+
+  /**
+   * Answers the request with the stored response while it is fresh, or
+   * stale within its `stale-while-revalidate` window, revalidating it in
+   * the background then. Otherwise, makes the request to the target
+   * conditional if the client did not.
+   *
+   * @param {ServerResponse} Res Response object
+   *
+   * @return {Boolean} Whether the request was answered
+   *
+   * @api private
+   */
+
+  serve(res: ServerResponse): boolean {
+    if (!this.entry) return false;
+    const cc = directives(this.entry.headers["cache-control"]);
+    const reqCc = requestDirectives(this.req);
+    const age = currentAge(this.entry);
+    const maxAge = seconds(reqCc["max-age"]);
+    if (
+      !reqCc["no-cache"] &&
+      !cc["no-cache"] &&
+      age < freshnessLifetime(this.entry.headers, this.entry.responseTime) &&
+      (maxAge === undefined || age <= maxAge)
+    ) {
+      return this.write("HIT", res);
+    }
+    if (!reqCc["no-cache"] && this.mayServeStale("stale-while-revalidate")) {
+      this.cache.revalidate(this);
+      return this.write("STALE", res);
+    }
+
+    const headers = this.req.headers;
+    if (!headers["if-none-match"] && !headers["if-modified-since"]) {
+      Object.assign(headers, conditionalHeaders(this.entry));
+      this.conditional = !!(
+        headers["if-none-match"] || headers["if-modified-since"]
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Answers the request with the stored response in place of the one of
+   * the target: a `304` to a conditional request made by the cache, or an
+   * error within the `stale-if-error` window.
+   *
+   * @param {IncomingMessage} UpstreamRes Response of the target
+   * @param {ServerResponse} Res Response object
+   *
+   * @return {Boolean} Whether the request was answered
+   *
+   * @api private
+   */
+
+  serveInstead(upstreamRes: IncomingMessage, res: ServerResponse): boolean {
+    if (this.conditional && upstreamRes.statusCode === 304) {
+      upstreamRes.resume();
+      this.entry = refreshed(this.entry, upstreamRes.headers, this.requestTime);
+      this.cache.set(this.key, this.entry);
+      return this.write("HIT", res);
+    }
+    if (upstreamRes.statusCode >= 500 && this.mayServeStale("stale-if-error")) {
+      upstreamRes.resume();
+      return this.write("STALE", res);
+    }
+    return false;
+  }
+
+  /**
+   * Answers the request with the stored response, if within its
+   * `stale-if-error` window, when the target could not be reached.
+   *
+   * @api private
+   */
+
+  serveStale(res: ServerResponse): boolean {
+    if (res.headersSent || !this.mayServeStale("stale-if-error")) return false;
+    return this.write("STALE", res);
+  }
+
+  /**
+   * Marks the response of the target as a miss, and stores it once read
+   * if it may be.
+   *
+   * @param {IncomingMessage} UpstreamRes Response of the target, after the
+   * outgoing passes
+   * @param {ServerResponse} Res Response object, its headers set
+   *
+   * @api private
+   */
+
+  store(upstreamRes: IncomingMessage, res: ServerResponse) {
+    this.mark("MISS", res);
+    if (this.proxyOptions.responseInterceptor) return;
+    if (!storable(this.req, upstreamRes)) return;
+    // the CORS headers of the proxy vary on `Origin`
+    const vary = varyValues(
+      upstreamRes.headers,
+      this.req,
+      this.proxyOptions.cors ? ["origin"] : []
+    );
+    if (!vary) return;
+
+    const headers: OutgoingHttpHeaders = withoutHopByHop(upstreamRes.headers);
+    UNSTORED_HEADERS.forEach((name) => delete headers[name]);
+    const status = res.statusCode;
+    copyOf(upstreamRes, this.cache.maxBodySize, (body) => {
+      if (!body) return;
+      this.cache.set(this.key, {
+        status,
+        headers,
+        body,
+        requestTime: this.requestTime,
+        responseTime: Date.now(),
+        vary,
+      });
+    });
+  }
+
+  mayServeStale(directive: "stale-while-revalidate" | "stale-if-error") {
+    if (!this.entry) return false;
+    const cc = directives(this.entry.headers["cache-control"]);
+    if (cc["must-revalidate"] || cc["proxy-revalidate"] || cc["no-cache"]) {
+      return false;
+    }
+    const window =
+      directive === "stale-if-error" && cc[directive] === undefined
+        ? seconds(requestDirectives(this.req)[directive])
+        : seconds(cc[directive]);
+    const staleness =
+      currentAge(this.entry) -
+      freshnessLifetime(this.entry.headers, this.entry.responseTime);
+    return window !== undefined && staleness <= window;
+  }
+
+  mark(status: CacheStatus, res: ServerResponse) {
+    res.setHeader("x-cache", status);
+    this.cache.server.emit("cache", status, this.req, res, this.key);
+  }
+
+  /**
+   * Answers the request with the stored response. Its headers go through
+   * the `responseHeaders` rules and get the CORS headers of the request, as
+   * those of the target would, and the headers set by the passes for this
+   * request are kept.
+   *
+   * @api private
+   */
+
+  write(status: CacheStatus, res: ServerResponse): boolean {
+    const entry = this.entry;
+    const headers = applyHeaderRules(
+      { ...entry.headers },
+      this.proxyOptions.responseHeaders || [],
+      this.req,
+      entry.status
+    );
+    Object.keys(headers).forEach((name) => res.setHeader(name, headers[name]));
+    if (this.proxyOptions.cors) {
+      setCorsHeaders(this.req, res, this.proxyOptions.cors);
+    }
+    res.setHeader("age", String(Math.floor(currentAge(entry))));
+    if (entry.status !== 204) {
+      res.setHeader("content-length", String(entry.body.length));
+    }
+    this.mark(status, res);
+    if (!this.conditional && notModified(this.req, entry)) {
+      res.statusCode = 304;
+      res.end();
+      return true;
+    }
+    res.statusCode = entry.status;
+    res.end(this.req.method === "HEAD" ? undefined : entry.body);
+    return true;
+  }
+}
+
+/**
+ * A shared HTTP cache (RFC 9111) of the responses to GET requests, by
+ * target, path and, unless `changeOrigin`, `Host`. Requests with other
+ * unsafe methods invalidate the response stored for their path.
+ *
+ * @api private
+ */
+
+export class HttpCache {
+  server;
+  store: CacheStore;
+  maxBodySize: number;
+  revalidating: Set<string> = new Set();
+
+  constructor(server, options: CacheOptions) {
+    this.server = server;
+    this.store = options.store || new MemoryStore(options.maxEntries || 1000);
+    this.maxBodySize = options.maxBodySize || 1024 * 1024;
+  }
+
+  key(req: IncomingMessage, options: proxyOptions): string {
+    const host = options.changeOrigin
+      ? ""
+      : req.headers.host || req.headers[":authority"] || "";
+    return (
+      upstreamKey(options.target) +
+      outgoingPath(options, req) +
+      (host ? " " + host : "")
+    );
+  }
+
+  /**
+   * Looks up the stored response for a GET or HEAD request.
+   *
+   * @param {IncomingMessage} Req Request object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @return {Promise|undefined} The lookup, nothing for other methods
+   *
+   * @api private
+   */
+
+  lookup(
+    req: IncomingMessage,
+    options: proxyOptions
+  ): Promise<CacheLookup> | undefined {
+    const key = this.key(req, options);
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      if (!SAFE_METHODS.includes(req.method)) this.delete(key);
+      return;
+    }
+    const lookup = (entry: CacheEntry | undefined) =>
+      new CacheLookup(
+        this,
+        req,
+        options,
+        key,
+        entry && varyMatches(entry, req) ? entry : undefined
+      );
+    if (requestDirectives(req)["no-store"]) {
+      return Promise.resolve(lookup(undefined));
+    }
+    return Promise.resolve()
+      .then(() => this.store.get(key))
+      .then(lookup, () => lookup(undefined));
+  }
+
+  set(key: string, entry: CacheEntry) {
+    Promise.resolve()
+      .then(() => this.store.set(key, entry))
+      .catch(() => undefined);
+  }
+
+  delete(key: string) {
+    Promise.resolve()
+      .then(() => this.store.delete(key))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Revalidates a stored response in the background with a conditional
+   * request to the target. A `304` refreshes it; a changed response
+   * removes it, to be fetched by the next request. Failures leave it as
+   * it is.
+   *
+   * @param {CacheLookup} Lookup The lookup that found the response stale
+   *
+   * @api private
+   */
+
+  revalidate(lookup: CacheLookup) {
+    const { key, entry, req, proxyOptions: options } = lookup;
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    const done = () => this.revalidating.delete(key);
+
+    const outgoing = setupOutgoing(
+      { ...options.ssl, ...options.requestOptions },
+      options,
+      req
+    );
+    outgoing.method = "GET";
+    delete outgoing.headers["if-none-match"];
+    delete outgoing.headers["if-modified-since"];
+    Object.assign(outgoing.headers, conditionalHeaders(entry));
+
+    const requestTime = Date.now();
+    const revalidation = (
+      (options.target as UrlWithStringQuery).protocol === "https:"
+        ? https
+        : http
+    ).request(outgoing);
+    if (options.proxyTimeout) {
+      revalidation.setTimeout(options.proxyTimeout, () =>
+        revalidation.destroy()
+      );
+    }
+    revalidation.on("error", done);
+    revalidation.on("response", (upstreamRes) => {
+      upstreamRes.resume();
+      if (upstreamRes.statusCode === 304) {
+        this.set(key, refreshed(entry, upstreamRes.headers, requestTime));
+      } else if (upstreamRes.statusCode < 500) {
+        this.delete(key);
+      }
+      done();
+    });
+    revalidation.end();
+  }
+}
@@ -0,0 +1,248 @@
+import url from "url";
+import type { ServerResponse } from "http";
+import type { Duplex } from "stream";
+import type { ProxyServer } from "./index";
+import { upstreamKey } from "./common";
+import { TargetUrl } from "./balancer";
+
+export type CircuitBreakerOptions = {
+  window?: number;
+  failureThreshold?: number;
+  failureRate?: number;
+  minRequests?: number;
+  resetTimeout?: number;
+  halfOpenRequests?: number;
+  failureStatusCodes?: number[];
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+type Bucket = { start: number; failures: number; total: number };
+
+type Circuit = {
+  target: any;
+  state: CircuitState;
+  changedAt: number;
+  trials: number;
+  buckets: Bucket[];
+};
+
+// the rolling window is tracked in this many buckets
+const BUCKETS = 10;
+
+/**
+ * Answers a request with a 503 while its circuit is open, `retryAfter`
+ * millis telling when to try again. `res` is the socket of websocket
+ * upgrades.
+ *
+ * @api private
+ */
+
+export function refuseOpen(res: ServerResponse | Duplex, retryAfter: number) {
+  const seconds = String(Math.ceil(retryAfter / 1000));
+  if (!("writeHead" in res)) {
+    res.end(
+      "HTTP/1.1 503 Service Unavailable\r\nRetry-After: " +
+        seconds +
+        "\r\nConnection: close\r\n\r\n"
+    );
+    return;
+  }
+  res.writeHead(503, { "content-type": "text/plain", "retry-after": seconds });
+  res.end("Service Unavailable");
+}
+
+/**
+ * Per-target circuit breakers.
+ *
+ * A closed circuit opens once, within the rolling `window`, the upstream
+ * failed `failureThreshold` times or at least `failureRate` of at least
+ * `minRequests` requests. The threshold defaults to 5 failures only when
+ * there is no `failureRate`. An open circuit rejects requests until
+ * `resetTimeout` has passed, then lets `halfOpenRequests` trial requests
+ * through: a success closes it again, a failure re-opens it.
+ *
+ * Transitions are emitted on the proxy as `circuitOpen`, `circuitHalfOpen`
+ * and `circuitClose` with `(target)`.
+ *
+ * @api private
+ */
+
+export class CircuitBreaker {
+  server: ProxyServer;
+  options: CircuitBreakerOptions;
+  circuits: Map<string, Circuit> = new Map();
+
+  constructor(server: ProxyServer, options: CircuitBreakerOptions) {
+    this.server = server;
+    this.options = {
+      window: 10000,
+      ...(options.failureRate === undefined && { failureThreshold: 5 }),
+      minRequests: 10,
+      resetTimeout: 30000,
+      halfOpenRequests: 1,
+      failureStatusCodes: [502, 503, 504],
+      ...options,
+    };
+  }
+
+  /**
+   * Returns the current state of the circuit of `target`, moving an open
+   * circuit to half-open once its `resetTimeout` has passed.
+   *
+   * @param {String|Object} Target url string or parsed url object
+   *
+   * @return {String} `closed`, `open` or `half-open`
+   *
+   * @api private
+   */
+
+  state(target: TargetUrl): CircuitState {
+    const circuit = this.get(target);
+    const elapsed = Date.now() - circuit.changedAt;
+    if (circuit.state === "open" && elapsed >= this.options.resetTimeout) {
+      this.transition(circuit, "half-open");
+    } else if (
+      circuit.state === "half-open" &&
+      elapsed >= this.options.resetTimeout
+    ) {
+      // trial requests never reported back (e.g. the client went away)
+      circuit.trials = 0;
+      circuit.changedAt = Date.now();
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Whether a request may be sent to `target`, without reserving a trial
+   * slot. Used to skip members of a target pool.
+   *
+   * @api private
+   */
+
+  isAvailable(target: TargetUrl): boolean {
+    const state = this.state(target);
+    if (state === "half-open") {
+      return this.get(target).trials < this.options.halfOpenRequests;
+    }
+    return state === "closed";
+  }
+
+  /**
+   * Admits a request to `target`, reserving a trial slot when the circuit is
+   * half-open.
+   *
+   * @param {String|Object} Target url string or parsed url object
+   *
+   * @return {Boolean} `false` if the request has to be rejected
+   *
+   * @api private
+   */
+
+  acquire(target: TargetUrl): boolean {
+    if (!this.isAvailable(target)) return false;
+    const circuit = this.get(target);
+    if (circuit.state === "half-open") circuit.trials++;
+    return true;
+  }
+
+  /**
+   * Millis until an open circuit lets trial requests through.
+   *
+   * @api private
+   */
+
+  retryAfter(target: TargetUrl): number {
+    const circuit = this.get(target);
+    return Math.max(
+      0,
+      this.options.resetTimeout - (Date.now() - circuit.changedAt)
+    );
+  }
+
+  isFailureStatus(status: number): boolean {
+    return this.options.failureStatusCodes.includes(status);
+  }
+
+  reportSuccess(target: TargetUrl) {
+    const circuit = this.get(target);
+    this.record(circuit, false);
+    if (circuit.state === "half-open") this.transition(circuit, "closed");
+  }
+
+  reportFailure(target: TargetUrl) {
+    const circuit = this.get(target);
+    this.record(circuit, true);
+    if (circuit.state === "half-open") {
+      return this.transition(circuit, "open");
+    }
+    if (circuit.state === "closed" && this.tripped(circuit)) {
+      this.transition(circuit, "open");
+    }
+  }
+
+  private get(target: TargetUrl): Circuit {
+    const parsed = typeof target === "string" ? url.parse(target) : target;
+    const key = upstreamKey(parsed);
+    if (!this.circuits.has(key)) {
+      this.circuits.set(key, {
+        target: parsed,
+        state: "closed",
+        changedAt: Date.now(),
+        trials: 0,
+        buckets: [],
+      });
+    }
+    return this.circuits.get(key);
+  }
+
+  private record(circuit: Circuit, failed: boolean) {
+    const now = Date.now();
+    const size = this.options.window / BUCKETS;
+    circuit.buckets = circuit.buckets.filter(
+      (bucket) => now - bucket.start < this.options.window
+    );
+    let bucket = circuit.buckets[circuit.buckets.length - 1];
+    if (!bucket || now - bucket.start >= size) {
+      bucket = { start: now, failures: 0, total: 0 };
+      circuit.buckets.push(bucket);
+    }
+    bucket.total++;
+    if (failed) bucket.failures++;
+  }
+
+  private tripped(circuit: Circuit): boolean {
+    let failures = 0;
+    let total = 0;
+    circuit.buckets.forEach((bucket) => {
+      failures += bucket.failures;
+      total += bucket.total;
+    });
+    if (
+      this.options.failureThreshold !== undefined &&
+      failures >= this.options.failureThreshold
+    ) {
+      return true;
+    }
+    return (
+      this.options.failureRate !== undefined &&
+      total >= this.options.minRequests &&
+      failures / total >= this.options.failureRate
+    );
+  }
+
+  private transition(circuit: Circuit, state: CircuitState) {
+    circuit.state = state;
+    circuit.changedAt = Date.now();
+    circuit.trials = 0;
+    if (state === "closed") circuit.buckets = [];
+    this.server.emit(
+      state === "open"
+        ? "circuitOpen"
+        : state === "half-open"
+        ? "circuitHalfOpen"
+        : "circuitClose",
+      circuit.target
+    );
+  }
+}
@@ -3,15 +3,33 @@ import requiresPort from "requires-port";
 import http, { IncomingMessage } from "http";
 import { Socket } from "net";
 import { proxyOptions } from "..";
+import { activeSpan } from "./tracing";
+import { applyHeaderRules, HeaderRule } from "./header-rules";
 
 const upgradeHeader = /(^|,)\s*upgrade\s*($|,)/i;
 
+// headers only meaningful for a single connection (RFC 9110, section 7.6.1)
+const hopByHopHeaders = [
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "upgrade",
+];
+
 export const isSSL = /^https|wss/;
 
 /**
  * Simple Regex for testing if protocol is https
  */
 
+export type PathRewrite =
+  | string
+  | Record<string, string>
+  | ((path: string, req: IncomingMessage) => string | Promise<string>);
+
 /**
  * Copies the right headers from `options` and `req` to
  * `outgoing` which is then used to fire the proxied
@@ -59,10 +77,35 @@ export function setupOutgoing(
 
   // @ts-ignore
   outgoing.method = options.method || req.method;
-  outgoing.headers = Object.assign({}, req.headers);
+  outgoing.headers = withoutHopByHop(req.headers || {});
+  // other upgrades, such as h2c, are not proxied: the request goes on as is
+  if (
+    req.headers &&
+    isWebsocket(req) &&
+    upgradeHeader.test(req.headers.connection)
+  ) {
+    outgoing.headers.connection = "upgrade";
+    outgoing.headers.upgrade = req.headers.upgrade;
+  }
+
+  //
+  // Remark: HTTP/2 clients send pseudo-headers, `:authority` taking the
+  // place of `host`. Neither HTTP/1 nor `setHeader` accept them.
+  //
+  Object.keys(outgoing.headers).forEach((key) => {
+    if (key[0] === ":") delete outgoing.headers[key];
+  });
+  if (!outgoing.headers.host && req.headers?.[":authority"]) {
+    outgoing.headers.host = req.headers[":authority"] as string;
+  }
+
+  applyHeaderRules(outgoing.headers, requestHeaderRules(options), req);
 
-  if (options.headers) {
-    Object.assign(outgoing.headers, options.headers);
+  const span = options.tracing && activeSpan(req, forward);
+  if (span) {
+    // a tracestate of an invalid traceparent does not belong to the trace
+    delete outgoing.headers.tracestate;
+    Object.assign(outgoing.headers, span.headers());
   }
 
   if (options.auth) {
@@ -102,32 +145,205 @@ export function setupOutgoing(
     }
   }
 
+  outgoing.path = outgoingPath(options, req, forward);
+
+  if (options.changeOrigin) {
+    outgoing.headers.host =
+      requiresPort(outgoing.port, protocol) && !hasPort(outgoing.host)
+        ? outgoing.host + ":" + outgoing.port
+        : outgoing.host;
+  }
+  return outgoing;
+}
+
+/**
+ * The rules changing the headers of the requests to the target: the
+ * `headers` to set, then the `requestHeaders`.
+ *
+ * @param {Object} Options Config object passed to the proxy
+ *
+ * @return {Array} The header rules
+ *
+ * @api private
+ */
+
+function requestHeaderRules(options: proxyOptions): HeaderRule[] {
+  const rules: HeaderRule[] = options.headers ? [{ set: options.headers }] : [];
+  return rules.concat(options.requestHeaders || []);
+}
+
+/**
+ * Copies headers without the hop-by-hop ones, which a proxy must not
+ * forward: `connection`, the headers it lists, `keep-alive`,
+ * `proxy-connection`, `proxy-authorization`, `te`, `trailer` and
+ * `upgrade`.
+ *
+ * Examples:
+ *
+ *    common.withoutHopByHop({ connection: "x-trace", "x-trace": "1", accept: "text/html" })
+ *    // => { accept: "text/html" }
+ *
+ * @param {Object} Headers Headers to copy, keys in lower case
+ * @param {Array} Keep Hop-by-hop headers to copy anyway
+ *
+ * @return {Object} A copy without the hop-by-hop headers
+ *
+ * @api private
+ */
+
+export function withoutHopByHop<T extends Record<string, any>>(
+  headers: T,
+  keep: string[] = []
+): T {
+  const listed = String(headers.connection || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase());
+  const result = {} as T;
+  Object.keys(headers).forEach((key) => {
+    const name = key.toLowerCase();
+    if (
+      !keep.includes(name) &&
+      (hopByHopHeaders.includes(name) || listed.includes(name))
+    ) {
+      return;
+    }
+    result[key as keyof T] = headers[key];
+  });
+  return result;
+}
+
+/**
+ * Returns the path requested from the target (or `forward`): the target
+ * path joined with the path of `req`, as rewritten by `pathRewrite`.
+ *
+ * @param {Object} Options Config object passed to the proxy
+ * @param {ClientRequest} Req Request Object
+ * @param {String} Forward String to select forward or target
+ *
+ * @return {String} The outgoing path, query string included
+ *
+ * @api private
+ */
+
+export function outgoingPath(
+  options: proxyOptions,
+  req: IncomingMessage,
+  forward?
+): string {
   // the final path is target path + relative path requested by user:
   var target = options[forward || "target"];
   var targetPath =
     target && options.prependPath !== false ? target.path || "" : "";
 
-  //
-  // Remark: Can we somehow not use url.parse as a perf optimization?
-  //
-  var outgoingPath = !options.toProxy ? url.parse(req.url).path || "" : req.url;
+  var path =
+    options.rewrittenPath !== undefined
+      ? options.rewrittenPath
+      : requestPath(options, req);
 
   //
   // Remark: ignorePath will just straight up ignore whatever the request's
   // path is. This can be labeled as FOOT-GUN material if you do not know what
   // you are doing and are using conflicting options.
   //
-  outgoingPath = !options.ignorePath ? outgoingPath : "";
+  path = !options.ignorePath ? path : "";
 
-  outgoing.path = urlJoin(targetPath, outgoingPath);
+  return urlJoin(targetPath, path);
+}
 
-  if (options.changeOrigin) {
-    outgoing.headers.host =
-      requiresPort(outgoing.port, protocol) && !hasPort(outgoing.host)
-        ? outgoing.host + ":" + outgoing.port
-        : outgoing.host;
+/**
+ * Returns the path of `req` that is joined with the target path, i.e.
+ * the absolute URL with `toProxy`.
+ *
+ * @param {Object} Options Config object passed to the proxy
+ * @param {ClientRequest} Req Request Object
+ *
+ * @return {String} The request path, query string included
+ *
+ * @api private
+ */
+
+export function requestPath(options: proxyOptions, req: IncomingMessage) {
+  //
+  // Remark: Can we somehow not use url.parse as a perf optimization?
+  //
+  return !options.toProxy ? url.parse(req.url).path || "" : req.url;
+}
+
+const compiledRules = new WeakMap<object, Array<[RegExp, string]>>();
+
+/**
+ * Applies the `pathRewrite` option to a request path: the first matching
+ * rule of a regex -> replacement map, a prefix to strip, or a function.
+ * Rules see the query string too, which is left as is unless they change it.
+ *
+ * Examples:
+ *
+ *    common.rewritePath({ "^/api/v1": "/v2" }, "/api/v1/users?page=2", req)
+ *    // => "/v2/users?page=2"
+ *
+ *    common.rewritePath("/api", "/api/users", req)
+ *    // => "/users"
+ *
+ * @param {String|Object|Function} Rule The `pathRewrite` option
+ * @param {String} Path Request path
+ * @param {ClientRequest} Req Request Object
+ *
+ * @return {String|Promise} The rewritten path, a promise for functions returning one
+ *
+ * @api private
+ */
+
+export function rewritePath(
+  rule: PathRewrite,
+  path: string,
+  req: IncomingMessage
+): string | Promise<string> {
+  if (typeof rule === "function") return rule(path, req);
+
+  if (typeof rule === "string") {
+    const prefix = rule.replace(/\/+$/, "");
+    const rest = path.slice(prefix.length);
+    if (!path.startsWith(prefix) || (rest && !/^[/?]/.test(rest))) return path;
+    return rest[0] === "/" ? rest : "/" + rest;
   }
-  return outgoing;
+
+  let rules = compiledRules.get(rule);
+  if (!rules) {
+    rules = Object.keys(rule).map((pattern): [RegExp, string] => [
+      new RegExp(pattern),
+      rule[pattern],
+    ]);
+    compiledRules.set(rule, rules);
+  }
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(path)) return path.replace(pattern, replacement);
+  }
+  return path;
+}
+
+/**
+ * Stores the request path rewritten by the `pathRewrite` option as
+ * `options.rewrittenPath`, which `setupOutgoing` then uses.
+ *
+ * @param {Object} Options Config object passed to the proxy
+ * @param {ClientRequest} Req Request Object
+ *
+ * @return {Promise|undefined} A promise if the rewrite function returned one
+ *
+ * @api private
+ */
+
+export function applyPathRewrite(options: proxyOptions, req: IncomingMessage) {
+  if (!options.pathRewrite || options.ignorePath) return;
+
+  const path = rewritePath(options.pathRewrite, requestPath(options, req), req);
+  if (typeof path === "string") {
+    options.rewrittenPath = path;
+    return;
+  }
+  return path.then((rewritten) => {
+    options.rewrittenPath = rewritten;
+  });
 }
 
 /**
@@ -164,7 +380,8 @@ export function setupSocket(socket: Socket) {
  * @api private
  */
 export const getPort = function (req: IncomingMessage) {
-  var res = req.headers.host ? req.headers.host.match(/:(\d+)/) : "";
+  var host = req.headers.host || (req.headers[":authority"] as string);
+  var res = host ? host.match(/:(\d+)/) : "";
 
   return res ? res[1] : hasEncryptedConnection(req) ? "443" : "80";
 };
@@ -278,6 +495,30 @@ function hasPort(host) {
   return !!~host.indexOf(":");
 }
 
+/**
+ * Builds a stable identifier for a target so per-upstream state (outstanding
+ * requests, health, ...) can be keyed on it.
+ *
+ * Examples:
+ *
+ *    common.upstreamKey(url.parse('http://localhost:8080/api'))
+ *    // => 'http://localhost:8080'
+ *
+ * @param {Object} Target Parsed url object or `{ host, port }` object
+ *
+ * @return {String} Protocol, host and port of the target
+ *
+ * @api private
+ */
+export function upstreamKey(target: any): string {
+  if (!target) return "";
+  if (target.socketPath) return "unix:" + target.socketPath;
+  const protocol = target.protocol || "http:";
+  const hostname = target.hostname || (target.host || "").split(":")[0];
+  const port = target.port || (isSSL.test(protocol) ? 443 : 80);
+  return protocol + "//" + hostname + ":" + port;
+}
+
 export function isWebsocket(req) {
   return (
     req.method === "GET" &&
@@ -285,3 +526,29 @@ export function isWebsocket(req) {
     req.headers.upgrade.toLowerCase() === "websocket"
   );
 }
+
+/**
+ * Reads a stream into a buffer of at most `maxSize` bytes, without taking
+ * it over: the buffer is dropped once the limit is exceeded and the stream
+ * keeps flowing wherever it is piped to.
+ *
+ * @api private
+ */
+
+export function copyOf(
+  source: NodeJS.ReadableStream,
+  maxSize: number,
+  done: (body: Buffer | undefined) => void
+) {
+  let chunks: Buffer[] = [];
+  let size = 0;
+  source.on("data", (chunk: Buffer) => {
+    if (!chunks) return;
+    size += chunk.length;
+    if (size > maxSize) chunks = null;
+    else chunks.push(chunk);
+  });
+  source.once("end", () =>
+    done(chunks ? Buffer.concat(chunks, size) : undefined)
+  );
+}
@@ -0,0 +1,166 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+export type CorsOrigin =
+  | string
+  | RegExp
+  | ((origin: string, req: IncomingMessage) => boolean);
+
+export type CorsOptions = {
+  origin?: CorsOrigin | CorsOrigin[];
+  methods?: string[];
+  allowedHeaders?: string[];
+  exposedHeaders?: string[];
+  credentials?: boolean;
+  maxAge?: number;
+};
+
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "POST", "DELETE"];
+
+/**
+ * Whether a request is a CORS preflight: an `OPTIONS` request asking
+ * whether another one may be sent.
+ *
+ * @api private
+ */
+
+export function isPreflight(req: IncomingMessage): boolean {
+  return (
+    req.method === "OPTIONS" &&
+    !!req.headers.origin &&
+    !!req.headers["access-control-request-method"]
+  );
+}
+
+/**
+ * Throws unless the `cors` option names the allowed origins when it allows
+ * credentials: `*` would let any site make credentialed requests.
+ *
+ * @param {Object} Options The `cors` option
+ *
+ * @api private
+ */
+
+export function checkCorsOptions(options: CorsOptions) {
+  if (!options.credentials) return;
+  const allowed = [].concat(
+    options.origin === undefined ? "*" : options.origin
+  );
+  if (allowed.includes("*")) {
+    throw new Error("cors: `credentials` need the allowed origins, not `*`");
+  }
+}
+
+/**
+ * Returns the `Access-Control-Allow-Origin` of a request: `*` when any
+ * origin is allowed without credentials, the origin of the request if it
+ * is allowed, nothing otherwise. With credentials, `*` allows no origin.
+ *
+ * @api private
+ */
+
+function allowedOrigin(
+  req: IncomingMessage,
+  options: CorsOptions
+): string | undefined {
+  const origin = req.headers.origin;
+  const allowed = [].concat(
+    options.origin === undefined ? "*" : options.origin
+  );
+  if (allowed.includes("*") && !options.credentials) return "*";
+  if (!origin) return;
+  const matches = allowed.some((rule: CorsOrigin) =>
+    typeof rule === "function"
+      ? rule(origin, req)
+      : rule instanceof RegExp
+      ? rule.test(origin)
+      : rule === origin
+  );
+  return matches ? origin : undefined;
+}
+
+function addVary(res: ServerResponse, name: string) {
+  const vary = String(res.getHeader("vary") || "");
+  const names = vary.split(",").map((value) => value.trim().toLowerCase());
+  if (names.includes(name.toLowerCase()) || names.includes("*")) return;
+  res.setHeader("vary", vary ? vary + ", " + name : name);
+}
+
+/**
+ * Sets the CORS headers of a response, replacing any set by the target.
+ *
+ * @param {IncomingMessage} Req Request object
+ * @param {ServerResponse} Res Response object
+ * @param {Object} Options The `cors` option
+ *
+ * @api private
+ */
+
+export function setCorsHeaders(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: CorsOptions
+) {
+  res.getHeaderNames().forEach((name) => {
+    if (name.startsWith("access-control-")) res.removeHeader(name);
+  });
+  const origin = allowedOrigin(req, options);
+  if (origin !== "*") addVary(res, "Origin");
+  if (!origin) return;
+
+  res.setHeader("access-control-allow-origin", origin);
+  if (options.credentials) {
+    res.setHeader("access-control-allow-credentials", "true");
+  }
+  if (options.exposedHeaders?.length) {
+    res.setHeader(
+      "access-control-expose-headers",
+      options.exposedHeaders.join(", ")
+    );
+  }
+}
+
+/**
+ * Answers a preflight request: with a 204 and the allowed methods and
+ * headers if its origin is allowed, with a 403 otherwise.
+ *
+ * @param {IncomingMessage} Req Request object
+ * @param {ServerResponse} Res Response object
+ * @param {Object} Options The `cors` option
+ *
+ * @api private
+ */
+
+export function answerPreflight(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: CorsOptions
+) {
+  const origin = allowedOrigin(req, options);
+  if (origin !== "*") addVary(res, "Origin");
+  if (!origin) {
+    res.writeHead(403, { "content-type": "text/plain" });
+    res.end("Forbidden");
+    return;
+  }
+
+  const requestHeaders = req.headers["access-control-request-headers"];
+  const headers: Record<string, string> = {
+    "access-control-allow-origin": origin,
+    "access-control-allow-methods": (options.methods || DEFAULT_METHODS).join(
+      ", "
+    ),
+  };
+  if (options.allowedHeaders) {
+    headers["access-control-allow-headers"] = options.allowedHeaders.join(", ");
+  } else if (requestHeaders) {
+    // any header the client asks for
+    headers["access-control-allow-headers"] = requestHeaders;
+    addVary(res, "Access-Control-Request-Headers");
+  }
+  if (options.credentials) headers["access-control-allow-credentials"] = "true";
+  if (options.maxAge !== undefined) {
+    headers["access-control-max-age"] = String(options.maxAge);
+  }
+  res.writeHead(204, headers);
+  res.end();
+}
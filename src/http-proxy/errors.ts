@@ -0,0 +1,43 @@
+import type { IncomingMessage } from "http";
+import type { UrlWithStringQuery } from "url";
+
+/**
+ * Error rejected by the promise-returning `webAsync`/`wsAsync`.
+ *
+ * `code` is the code of the underlying error (e.g. `ECONNREFUSED`),
+ * `ABORT_ERR` when the request was aborted through its `AbortSignal` or
+ * `ECONNRESET` when the client went away first.
+ *
+ * @api public
+ */
+
+export class ProxyError extends Error {
+  code: string;
+  req: IncomingMessage;
+  target?: UrlWithStringQuery;
+  cause?: unknown;
+
+  constructor(
+    message: string,
+    code: string,
+    req: IncomingMessage,
+    target?: UrlWithStringQuery,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = "ProxyError";
+    this.code = code;
+    this.req = req;
+    this.target = target;
+    this.cause = cause;
+  }
+
+  static from(
+    err: NodeJS.ErrnoException,
+    req: IncomingMessage,
+    target?: UrlWithStringQuery
+  ): ProxyError {
+    if (err instanceof ProxyError) return err;
+    return new ProxyError(err.message, err.code || "EPROXY", req, target, err);
+  }
+}
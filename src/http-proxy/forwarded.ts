@@ -0,0 +1,184 @@
+import { IncomingMessage } from "http";
+import { BlockList, isIP } from "net";
+import { getPort } from "./common";
+
+/**
+ * Headers the `xfwd` option sets: the `x-forwarded-*` ones, the RFC 7239
+ * `Forwarded` header, or both.
+ */
+export type ForwardedFormat = "x-forwarded" | "forwarded" | "both";
+
+const FORWARDING_HEADERS = [
+  "forwarded",
+  "x-forwarded-for",
+  "x-forwarded-port",
+  "x-forwarded-proto",
+  "x-forwarded-host",
+];
+
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+function unmapped(address: string): string {
+  return address.startsWith("::ffff:") && isIP(address.slice(7)) === 4
+    ? address.slice(7)
+    : address;
+}
+
+/**
+ * Addresses and CIDR ranges of the proxies in front of this one, whose
+ * forwarding headers are believed.
+ *
+ * @api private
+ */
+
+export class TrustedProxies {
+  list: BlockList = new BlockList();
+
+  constructor(ranges: string[]) {
+    ranges.forEach((range) => {
+      const [address, prefix] = unmapped(range).split("/");
+      const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+      if (prefix) this.list.addSubnet(address, Number(prefix), family);
+      else this.list.addAddress(address, family);
+    });
+  }
+
+  includes(address: string): boolean {
+    const family = isIP(address);
+    if (!family) return false;
+    return this.list.check(address, family === 6 ? "ipv6" : "ipv4");
+  }
+}
+
+/**
+ * The address of a node of a forwarding header, without quotes, brackets
+ * or port: `"[2001:db8::1]:4711"` is `2001:db8::1`.
+ *
+ * @api private
+ */
+
+function nodeAddress(node: string): string {
+  let address = node.trim();
+  if (address.startsWith('"')) {
+    address = address.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  if (address.startsWith("[")) return address.slice(1, address.indexOf("]"));
+  if (!isIP(address) && address.split(":").length === 2) {
+    return address.split(":")[0];
+  }
+  return address;
+}
+
+function quoted(value: string): string {
+  return TOKEN.test(value)
+    ? value
+    : '"' + value.replace(/(["\\])/g, "\\$1") + '"';
+}
+
+/**
+ * The client addresses a request went through, oldest first, as listed by
+ * `x-forwarded-for` or, with the `forwarded` format, by the `for`
+ * parameters of `Forwarded`.
+ *
+ * @api private
+ */
+
+function forwardedFor(req: IncomingMessage, format: ForwardedFormat): string[] {
+  if (format !== "forwarded") {
+    return String(req.headers["x-forwarded-for"] || "")
+      .split(",")
+      .map(nodeAddress)
+      .filter(Boolean);
+  }
+  const elements =
+    String(req.headers.forwarded || "").match(
+      /(?:[^,"]|"(?:[^"\\]|\\.)*")+/g
+    ) || [];
+  return elements.map((element) => {
+    const match = element.match(/(?:^|;)\s*for=("(?:[^"\\]|\\.)*"|[^;]*)/i);
+    return match ? nodeAddress(match[1]) : "unknown";
+  });
+}
+
+/**
+ * The address of the client of a request: the socket's, or the last one
+ * of its forwarding headers not added by one of the `trusted` proxies.
+ *
+ * @param {IncomingMessage} Req Request object
+ * @param {TrustedProxies} Trusted Proxies whose headers are believed
+ * @param {String} Format Header listing the addresses
+ *
+ * @return {String} The address of the client
+ *
+ * @api private
+ */
+
+export function clientAddress(
+  req: IncomingMessage,
+  trusted?: TrustedProxies,
+  format: ForwardedFormat = "x-forwarded"
+): string {
+  let address = unmapped(req.socket?.remoteAddress || "");
+  if (!trusted) return address;
+  const hops = forwardedFor(req, format);
+  while (hops.length && trusted.includes(address)) {
+    address = unmapped(hops.pop());
+  }
+  return address;
+}
+
+/**
+ * Sets the forwarding headers of a request in the given format. Those the
+ * request came with are kept only if it was sent by one of the `trusted`
+ * proxies, anyone else could have made them up.
+ *
+ * @param {IncomingMessage} Req Request object
+ * @param {String} Proto Protocol the request was received with
+ * @param {String} Format Headers to set
+ * @param {TrustedProxies} Trusted Proxies whose headers are kept
+ *
+ * @api private
+ */
+
+export function setForwardedHeaders(
+  req: IncomingMessage,
+  proto: string,
+  format: ForwardedFormat = "x-forwarded",
+  trusted?: TrustedProxies
+) {
+  const peer = req.socket?.remoteAddress || "";
+  if (!trusted?.includes(unmapped(peer))) {
+    FORWARDING_HEADERS.forEach((name) => delete req.headers[name]);
+  }
+  const host = req.headers.host || (req.headers[":authority"] as string) || "";
+
+  if (format !== "forwarded") {
+    const values: Record<string, string> = {
+      for: peer,
+      port: getPort(req),
+      proto,
+    };
+    Object.keys(values).forEach((header) => {
+      req.headers["x-forwarded-" + header] =
+        (req.headers["x-forwarded-" + header] || "") +
+        (req.headers["x-forwarded-" + header] ? "," : "") +
+        values[header];
+    });
+    req.headers["x-forwarded-host"] = req.headers["x-forwarded-host"] || host;
+  }
+
+  if (format !== "x-forwarded") {
+    const node = !peer
+      ? "unknown"
+      : isIP(peer) === 6
+      ? '"[' + peer + ']"'
+      : peer;
+    const element = ["for=" + node]
+      .concat(host ? "host=" + quoted(host) : [])
+      .concat("proto=" + proto)
+      .join(";");
+    req.headers.forwarded = req.headers.forwarded
+      ? req.headers.forwarded + ", " + element
+      : element;
+  }
+}
@@ -0,0 +1,136 @@
+import type { IncomingMessage } from "http";
+import url from "url";
+
+/**
+ * A header value, or a function of the request returning one. Headers
+ * whose function returns `undefined` are left alone.
+ */
+export type HeaderValue =
+  | string
+  | number
+  | string[]
+  | ((req: IncomingMessage) => string | number | string[] | undefined);
+
+/**
+ * Changes to the headers of the requests to the target (`requestHeaders`)
+ * or of its responses (`responseHeaders`): the `remove`d headers go, the
+ * `rename`d ones are moved, then the `set` headers replace any of the
+ * same name and the `append`ed ones are added to them. The rule applies
+ * to the requests to the given `path` (a prefix or a RegExp) and
+ * `method`, and to the responses with the given `status`, each of them
+ * matching any request if missing.
+ */
+export type HeaderRule = {
+  set?: Record<string, HeaderValue>;
+  append?: Record<string, HeaderValue>;
+  remove?: string[];
+  rename?: Record<string, string>;
+  path?: string | RegExp;
+  method?: string | string[];
+  status?: number | number[];
+};
+
+type Headers = Record<string, any>;
+
+function matches(
+  rule: HeaderRule,
+  req: IncomingMessage,
+  status?: number
+): boolean {
+  if (rule.path) {
+    const path = url.parse(req.url || "/").pathname || "/";
+    if (
+      typeof rule.path === "string"
+        ? !path.startsWith(rule.path)
+        : !rule.path.test(path)
+    ) {
+      return false;
+    }
+  }
+  if (
+    rule.method &&
+    ![]
+      .concat(rule.method)
+      .some((method) => method.toUpperCase() === req.method?.toUpperCase())
+  ) {
+    return false;
+  }
+  if (rule.status !== undefined && ![].concat(rule.status).includes(status)) {
+    return false;
+  }
+  return true;
+}
+
+// the keys of `headers` naming the header, whatever their case
+function keysOf(headers: Headers, name: string): string[] {
+  return Object.keys(headers).filter(
+    (key) => key.toLowerCase() === name.toLowerCase()
+  );
+}
+
+function remove(headers: Headers, name: string) {
+  keysOf(headers, name).forEach((key) => delete headers[key]);
+}
+
+/**
+ * Applies the matching rules, in order, to the headers of a request to
+ * the target or of a response to the client.
+ *
+ * Examples:
+ *
+ *    applyHeaderRules({ server: "nginx" }, [{ remove: ["server"], set: { "x-frame-options": "DENY" } }], req, 200)
+ *    // => { "x-frame-options": "DENY" }
+ *
+ * @param {Object} Headers Headers to change
+ * @param {Array} Rules Rules to apply
+ * @param {ClientRequest} Req Request the headers are about
+ * @param {Number} Status Status code of the response, if any
+ *
+ * @return {Object} The changed headers
+ *
+ * @api private
+ */
+
+export function applyHeaderRules(
+  headers: Headers,
+  rules: HeaderRule[],
+  req: IncomingMessage,
+  status?: number
+): Headers {
+  const valueOf = (value: HeaderValue) =>
+    typeof value === "function" ? value(req) : value;
+
+  rules
+    .filter((rule) => matches(rule, req, status))
+    .forEach((rule) => {
+      (rule.remove || []).forEach((name) => remove(headers, name));
+
+      Object.keys(rule.rename || {}).forEach((name) => {
+        const [key] = keysOf(headers, name);
+        if (key === undefined) return;
+        const value = headers[key];
+        remove(headers, name);
+        remove(headers, rule.rename[name]);
+        headers[rule.rename[name]] = value;
+      });
+
+      Object.keys(rule.set || {}).forEach((name) => {
+        const value = valueOf(rule.set[name]);
+        if (value === undefined) return;
+        remove(headers, name);
+        headers[name] = value;
+      });
+
+      Object.keys(rule.append || {}).forEach((name) => {
+        const value = valueOf(rule.append[name]);
+        if (value === undefined) return;
+        const [key] = keysOf(headers, name);
+        const current = key === undefined ? undefined : headers[key];
+        if (current === undefined) headers[name] = value;
+        else if (Array.isArray(current)) {
+          headers[key] = current.concat(value);
+        } else headers[key] = [current].concat(value).join(", ");
+      });
+    });
+  return headers;
+}
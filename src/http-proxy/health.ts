@@ -0,0 +1,227 @@
+import url, { UrlWithStringQuery } from "url";
+import http from "http";
+import https from "https";
+import type { ProxyServer } from "./index";
+import { isSSL, upstreamKey } from "./common";
+import { TargetUrl } from "./balancer";
+
+export type HealthCheckOptions = {
+  path?: string;
+  interval?: number;
+  timeout?: number;
+  expectedStatus?: number | number[];
+  unhealthyThreshold?: number;
+  healthyThreshold?: number;
+  cooldown?: number;
+};
+
+type UpstreamHealth = {
+  key: string;
+  target: UrlWithStringQuery;
+  healthy: boolean;
+  failures: number;
+  successes: number;
+  changedAt: number;
+};
+
+/**
+ * Keeps track of the health of every upstream a proxy talks to.
+ *
+ * Upstreams become unhealthy after `unhealthyThreshold` consecutive failures,
+ * reported either passively by the `stream` passes or by the active probe
+ * (a GET of `path` every `interval` ms). They recover after
+ * `healthyThreshold` consecutive successes. Without active probing an
+ * unhealthy upstream is let through again once `cooldown` ms have passed so
+ * live traffic can prove it healthy.
+ *
+ * State changes are emitted on the proxy as `upstreamHealthy` and
+ * `upstreamUnhealthy` with `(target, err)`.
+ *
+ * @api private
+ */
+
+export class HealthChecker {
+  server: ProxyServer;
+  options: HealthCheckOptions;
+  upstreams: Map<string, UpstreamHealth> = new Map();
+  private timer: NodeJS.Timeout;
+
+  constructor(server: ProxyServer, options: HealthCheckOptions) {
+    this.server = server;
+    this.options = {
+      interval: 10000,
+      timeout: 2000,
+      unhealthyThreshold: 3,
+      healthyThreshold: 1,
+      cooldown: 30000,
+      ...options,
+    };
+  }
+
+  /**
+   * Registers an upstream so it is probed and its state is remembered.
+   *
+   * @param {String|Object} Target url string or parsed url object
+   *
+   * @return {Object} Health state of the upstream
+   *
+   * @api private
+   */
+
+  track(target: TargetUrl): UpstreamHealth {
+    const parsed = typeof target === "string" ? url.parse(target) : target;
+    const key = upstreamKey(parsed);
+    if (!this.upstreams.has(key)) {
+      this.upstreams.set(key, {
+        key,
+        target: parsed,
+        healthy: true,
+        failures: 0,
+        successes: 0,
+        changedAt: Date.now(),
+      });
+    }
+    return this.upstreams.get(key);
+  }
+
+  /**
+   * Forgets an upstream so it is no longer probed.
+   *
+   * @param {String|Object} Target url string or parsed url object
+   *
+   * @api private
+   */
+
+  untrack(target: TargetUrl) {
+    this.upstreams.delete(
+      upstreamKey(typeof target === "string" ? url.parse(target) : target)
+    );
+  }
+
+  isHealthy(target: TargetUrl): boolean {
+    const state = this.upstreams.get(
+      upstreamKey(typeof target === "string" ? url.parse(target) : target)
+    );
+    if (!state || state.healthy) return true;
+    // Nobody probes it, so let live traffic find out whether it is back.
+    return (
+      !this.options.path &&
+      Date.now() - state.changedAt >= this.options.cooldown
+    );
+  }
+
+  reportFailure(target: TargetUrl, err?: Error) {
+    const state = this.track(target);
+    state.successes = 0;
+    state.failures++;
+    if (!state.healthy) {
+      // restart the cooldown, the upstream is still failing
+      state.changedAt = Date.now();
+    } else if (state.failures >= this.options.unhealthyThreshold) {
+      this.transition(state, false, err);
+    }
+  }
+
+  reportSuccess(target: TargetUrl) {
+    const state = this.track(target);
+    state.failures = 0;
+    state.successes++;
+    if (!state.healthy && state.successes >= this.options.healthyThreshold) {
+      this.transition(state, true);
+    }
+  }
+
+  /**
+   * Starts active probing if a `path` was configured.
+   *
+   * @api private
+   */
+
+  start() {
+    if (!this.options.path || this.timer) return;
+    this.timer = setInterval(() => this.probeAll(), this.options.interval);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  probeAll(): Promise<void> {
+    return Promise.all(
+      Array.from(this.upstreams.values()).map((state) =>
+        this.probe(state.target)
+      )
+    ).then(() => undefined);
+  }
+
+  /**
+   * Sends a single health probe to `target` and records its outcome.
+   *
+   * @param {Object} Target Parsed url object
+   *
+   * @return {Promise} Resolves with `true` if the upstream answered as expected
+   *
+   * @api private
+   */
+
+  probe(target: UrlWithStringQuery): Promise<boolean> {
+    const options = this.options;
+    return new Promise((resolve) => {
+      let settled = false;
+      const finish = (ok: boolean, err?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (ok) this.reportSuccess(target);
+        else this.reportFailure(target, err);
+        resolve(ok);
+      };
+
+      const probeReq = (isSSL.test(target.protocol) ? https : http).request({
+        hostname: target.hostname,
+        port: target.port,
+        // @ts-ignore
+        socketPath: target.socketPath,
+        path: options.path,
+        method: "GET",
+        agent: false,
+        rejectUnauthorized: this.server.options.secure !== false,
+      });
+
+      probeReq.setTimeout(options.timeout, () => {
+        probeReq.destroy(new Error("Health check timed out"));
+      });
+      probeReq.on("error", (err) => finish(false, err));
+      probeReq.on("response", (probeRes) => {
+        probeRes.resume();
+        if (this.isExpectedStatus(probeRes.statusCode)) {
+          return finish(true);
+        }
+        finish(
+          false,
+          new Error("Health check returned status " + probeRes.statusCode)
+        );
+      });
+      probeReq.end();
+    });
+  }
+
+  private isExpectedStatus(status: number) {
+    const expected = this.options.expectedStatus;
+    if (expected === undefined) return status >= 200 && status < 300;
+    return Array.isArray(expected)
+      ? expected.includes(status)
+      : expected === status;
+  }
+
+  private transition(state: UpstreamHealth, healthy: boolean, err?: Error) {
+    state.healthy = healthy;
+    state.changedAt = Date.now();
+    this.server.emit(
+      healthy ? "upstreamHealthy" : "upstreamUnhealthy",
+      state.target,
+      err
+    );
+  }
+}
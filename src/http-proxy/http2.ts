@@ -0,0 +1,306 @@
+import http2, {
+  ClientHttp2Session,
+  ClientHttp2Stream,
+  IncomingHttpHeaders as Http2Headers,
+} from "http2";
+import net from "net";
+import { PassThrough, Writable } from "stream";
+import type {
+  IncomingHttpHeaders,
+  OutgoingHttpHeaders,
+  RequestOptions,
+} from "http";
+import { isSSL, upstreamKey } from "./common";
+
+// connection-specific headers HTTP/2 forbids (RFC 7540, section 8.1.2.2)
+const connectionHeaders = [
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// settings of `setupOutgoing` that apply to the session's TLS connection
+const tlsOptions = [
+  "pfx",
+  "key",
+  "passphrase",
+  "cert",
+  "ca",
+  "ciphers",
+  "secureProtocol",
+  "rejectUnauthorized",
+  "localAddress",
+];
+
+/**
+ * Removes the headers HTTP/2 does not allow from HTTP/1 headers: the
+ * connection-specific ones, those listed in `connection`, and `te` unless
+ * it is `trailers`.
+ *
+ * Examples:
+ *
+ *    http2.stripConnectionHeaders({ connection: "keep-alive", "content-type": "text/html" })
+ *    // => { "content-type": "text/html" }
+ *
+ * @param {Object} Headers Headers to clean up, keys in lower case
+ *
+ * @return {Object} A copy without the connection-specific headers
+ *
+ * @api private
+ */
+
+export function stripConnectionHeaders<T extends Record<string, any>>(
+  headers: T
+): T {
+  const listed = String(headers.connection || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase());
+  const result = {} as T;
+  Object.keys(headers).forEach((key) => {
+    const name = key.toLowerCase();
+    if (connectionHeaders.indexOf(name) !== -1 || listed.indexOf(name) !== -1)
+      return;
+    if (name === "te" && String(headers[key]).trim() !== "trailers") return;
+    result[key as keyof T] = headers[key];
+  });
+  return result;
+}
+
+/**
+ * Streams of a session that failed are cancelled with the session's error,
+ * e.g. `ECONNREFUSED`, as `cause`: that one is reported instead.
+ *
+ * @api private
+ */
+
+function sessionError(err: NodeJS.ErrnoException): Error {
+  if (err.code === "ERR_HTTP2_STREAM_CANCEL" && err.cause instanceof Error) {
+    return err.cause;
+  }
+  return err;
+}
+
+/**
+ * One reusable HTTP/2 session per target, for the `upstreamHttp2` option.
+ *
+ * Sessions are dropped once the upstream closes them or sends GOAWAY, the
+ * next request opens a new one. They do not keep the process alive.
+ */
+
+export class Http2Sessions {
+  sessions = new Map<string, ClientHttp2Session>();
+
+  /**
+   * Returns the open session to `target`, connecting first if needed.
+   *
+   * @param {Object} Target Parsed target url
+   * @param {Object} Outgoing Request options from `setupOutgoing` (TLS settings)
+   *
+   * @return {ClientHttp2Session} The session
+   *
+   * @api private
+   */
+
+  get(target, outgoing: RequestOptions): ClientHttp2Session {
+    const key = upstreamKey(target);
+    let session = this.sessions.get(key);
+    if (session && !session.closed && !session.destroyed) return session;
+
+    const secure = isSSL.test(target.protocol);
+    const origin =
+      (secure ? "https://" : "http://") +
+      (target.hostname || "localhost") +
+      ":" +
+      (target.port || (secure ? 443 : 80));
+    const options: http2.SecureClientSessionOptions = {};
+    tlsOptions.forEach((name) => {
+      if (outgoing[name] !== undefined) options[name] = outgoing[name];
+    });
+    if (target.socketPath) {
+      options.createConnection = () => net.connect(target.socketPath);
+    }
+    session = http2.connect(origin, options);
+    session.unref();
+
+    const forget = () => {
+      if (this.sessions.get(key) === session) this.sessions.delete(key);
+    };
+    session.on("goaway", forget);
+    session.on("close", forget);
+    // errors reach the streams of the session as well
+    session.on("error", forget);
+
+    this.sessions.set(key, session);
+    return session;
+  }
+
+  /**
+   * Closes every session, letting pending streams finish.
+   *
+   * @api private
+   */
+
+  close() {
+    this.sessions.forEach((session) => session.close());
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Response of an HTTP/2 upstream, shaped like the `IncomingMessage` the
+ * outgoing passes expect: pseudo-headers are removed and `statusCode` set.
+ */
+
+export class Http2UpstreamResponse extends PassThrough {
+  statusCode: number;
+  statusMessage = "";
+  httpVersion = "2.0";
+  httpVersionMajor = 2;
+  httpVersionMinor = 0;
+  headers: IncomingHttpHeaders = {};
+  rawHeaders: string[] = [];
+
+  constructor(private stream: ClientHttp2Stream, headers: Http2Headers) {
+    super();
+    this.statusCode = Number(headers[":status"]);
+    Object.keys(headers).forEach((key) => {
+      if (key[0] === ":") return;
+      this.headers[key] = headers[key];
+      [].concat(headers[key]).forEach((value) => {
+        this.rawHeaders.push(key, String(value));
+      });
+    });
+    stream.pipe(this);
+  }
+
+  _destroy(err: Error | null, callback: (err: Error | null) => void) {
+    if (!this.stream.destroyed && !this.stream.readableEnded) {
+      this.stream.close(http2.constants.NGHTTP2_CANCEL);
+    }
+    callback(err);
+  }
+}
+
+/**
+ * The parts of `http.ClientRequest` the `stream` pass uses, so a request to
+ * an HTTP/2 upstream can stand in for it.
+ */
+
+export interface UpstreamRequest extends Writable {
+  getHeader(name: string): number | string | string[] | undefined;
+  getHeaders(): OutgoingHttpHeaders;
+  setHeader(name: string, value: number | string | string[]): this;
+  removeHeader(name: string): void;
+  setTimeout(ms: number, callback?: () => void): this;
+}
+
+/**
+ * Request to an HTTP/2 upstream, shaped like the `http.ClientRequest` the
+ * `stream` pass works with: it emits `socket`, `response` and `error`, and
+ * its headers can be changed until the body starts.
+ *
+ * HTTP/1 headers are translated on the way: `host` becomes `:authority`,
+ * connection-specific headers are dropped.
+ */
+
+export class Http2UpstreamRequest extends Writable implements UpstreamRequest {
+  private headers: OutgoingHttpHeaders = {};
+  private stream: ClientHttp2Stream | undefined;
+  private timeout: [number, () => void] | undefined;
+
+  constructor(
+    private session: ClientHttp2Session,
+    private outgoing: RequestOptions
+  ) {
+    // like a ClientRequest, sending the whole body does not end the request
+    super({ autoDestroy: false });
+    Object.keys(outgoing.headers || {}).forEach((key) => {
+      this.headers[key.toLowerCase()] = outgoing.headers[key];
+    });
+    process.nextTick(() => {
+      if (!this.destroyed) this.emit("socket", session.socket);
+    });
+  }
+
+  getHeader(name: string) {
+    return this.headers[name.toLowerCase()];
+  }
+
+  getHeaders() {
+    return { ...this.headers };
+  }
+
+  setHeader(name: string, value: number | string | string[]) {
+    if (this.stream) throw new Error("Cannot set headers after they are sent");
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  removeHeader(name: string) {
+    if (this.stream) {
+      throw new Error("Cannot remove headers after they are sent");
+    }
+    delete this.headers[name.toLowerCase()];
+  }
+
+  setTimeout(ms: number, callback: () => void) {
+    if (this.stream) this.stream.setTimeout(ms, callback);
+    else this.timeout = [ms, callback];
+    return this;
+  }
+
+  /**
+   * Sends the headers, opening the HTTP/2 stream.
+   *
+   * @api private
+   */
+
+  private start(): ClientHttp2Stream {
+    if (this.stream) return this.stream;
+
+    const { host, ...headers } = stripConnectionHeaders(this.headers);
+    const stream = (this.stream = this.session.request({
+      ...headers,
+      ":method": this.outgoing.method || "GET",
+      ":path": this.outgoing.path || "/",
+      ":scheme": this.session.encrypted ? "https" : "http",
+      ":authority": String(host || this.outgoing.host),
+    }));
+    let response: Http2UpstreamResponse;
+
+    stream.on("response", (headers) => {
+      response = new Http2UpstreamResponse(stream, headers);
+      this.emit("response", response);
+    });
+    stream.on("error", (err) => {
+      err = sessionError(err);
+      if (response) response.destroy(err);
+      else this.destroy(err);
+    });
+    if (this.timeout) stream.setTimeout(...this.timeout);
+    return stream;
+  }
+
+  _write(
+    chunk: any,
+    encoding: BufferEncoding,
+    callback: (err?: Error) => void
+  ) {
+    this.start().write(chunk, encoding, (err) =>
+      callback(err && sessionError(err))
+    );
+  }
+
+  _final(callback: (err?: Error) => void) {
+    this.start().end((err) => callback(err && sessionError(err)));
+  }
+
+  _destroy(err: Error | null, callback: (err: Error | null) => void) {
+    if (this.stream && !this.stream.destroyed) {
+      this.stream.close(http2.constants.NGHTTP2_CANCEL);
+    }
+    callback(err);
+  }
+}
@@ -2,15 +2,50 @@ import url from "url";
 import { EventEmitter as EE3 } from "eventemitter3";
 import http from "http";
 import https from "https";
+import http2 from "http2";
 import webPasses from "./passes/web-incoming";
 import wsPasses from "./passes/ws-incoming";
+import webOutgoingPasses from "./passes/web-outgoing";
 import { proxyOptions } from "../index";
 import internal from "stream";
 import { isWebsocket } from "./common";
+import { poolKey, TargetPool, PoolMember } from "./balancer";
+import { HealthChecker } from "./health";
+import { CircuitBreaker, refuseOpen } from "./circuit-breaker";
+import { HttpCache } from "./cache";
+import { RateLimiter } from "./rate-limit";
+import { clientAddress, TrustedProxies } from "./forwarded";
+import { Authenticator } from "./auth";
+import { checkCorsOptions } from "./cors";
+import { ProxyError } from "./errors";
+import { route } from "./router";
+import { Http2Sessions } from "./http2";
+import { Metrics, MetricsSnapshot } from "./metrics";
+import { ActiveTraffic, ShutdownOptions, ShutdownResult } from "./shutdown";
+import {
+  WsConnectionFilter,
+  WsConnectionInfo,
+  WsRegistry,
+} from "./ws-registry";
+import { CLOSE_CODES } from "./ws-frames";
+import { RequestRecord } from "./access-log";
+import {
+  OutgoingPass,
+  PassOf,
+  PassType,
+  resolvePasses,
+  runPasses,
+  WebPass,
+  WsPass,
+} from "./pipeline";
+
+// target lists whose pools are kept, the least recently used is dropped
+const MAX_POOLS = 100;
 
 type ProxyWeb = (args: {
   req: http.IncomingMessage;
   res: http.ServerResponse;
+  errorHandler?: Function;
   options?: proxyOptions;
 }) => void;
 
@@ -18,18 +53,67 @@ type ProxyWs = (args: {
   req: http.IncomingMessage;
   socket: internal.Duplex;
   head: Buffer;
+  errorHandler?: Function;
   options?: proxyOptions;
 }) => void;
 
+export type ProxyTimings = {
+  start: number;
+  headers?: number;
+  total: number;
+};
+
+export type ProxyResult = {
+  statusCode: number;
+  target?: url.UrlWithStringQuery;
+  timings: ProxyTimings;
+};
+
+type ProxyWebAsync = (args: {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  options?: proxyOptions;
+  signal?: AbortSignal;
+}) => Promise<ProxyResult>;
+
+type ProxyWsAsync = (args: {
+  req: http.IncomingMessage;
+  socket: internal.Duplex;
+  head: Buffer;
+  options?: proxyOptions;
+  signal?: AbortSignal;
+}) => Promise<ProxyResult>;
+
+type PendingUpstream = (
+  upstreamRes: http.IncomingMessage,
+  target: url.UrlWithStringQuery
+) => void;
+
 export class ProxyServer extends EE3 {
   web: ProxyWeb;
   ws: ProxyWs;
+  webAsync: ProxyWebAsync;
+  wsAsync: ProxyWsAsync;
   proxyRequest: ProxyWeb;
   proxyWebsocketRequest: ProxyWs;
   options: proxyOptions;
-  webPasses;
-  wsPasses;
-  _server: https.Server | http.Server;
+  webPasses: WebPass[];
+  wsPasses: WsPass[];
+  outgoingPasses: OutgoingPass[];
+  pools: Map<string, TargetPool> = new Map();
+  health: HealthChecker;
+  circuits: CircuitBreaker;
+  cache: HttpCache;
+  trustedProxies: TrustedProxies;
+  rateLimiter: RateLimiter;
+  authenticator: Authenticator;
+  pending: Map<http.IncomingMessage, PendingUpstream> = new Map();
+  sessions: Http2Sessions = new Http2Sessions();
+  collector: Metrics;
+  traffic: ActiveTraffic;
+  wsRegistry: WsRegistry = new WsRegistry(this);
+  shuttingDown: Promise<ShutdownResult>;
+  _server: https.Server | http.Server | http2.Http2Server;
   constructor(options: proxyOptions) {
     super();
     options = options || {};
@@ -37,29 +121,175 @@ export class ProxyServer extends EE3 {
 
     this.web = this.proxyRequest = this.createRightProxy("web");
     this.ws = this.proxyWebsocketRequest = this.createRightProxy("ws");
+    this.webAsync = (args) => this.proxyAsync("web", args);
+    this.wsAsync = (args) => this.proxyAsync("ws", args);
     this.options = options;
 
     this.webPasses = Object.values(webPasses);
     this.wsPasses = Object.values(wsPasses);
+    this.outgoingPasses = Object.values(webOutgoingPasses);
 
     this.on("error", this.onError, this);
+    this.collector = new Metrics(this, options.metrics);
+    this.traffic = new ActiveTraffic(this);
+
+    const onUpstreamResponse = (upstreamRes, req, _res, target) => {
+      const pending = this.pending.get(req);
+      if (pending) pending(upstreamRes, target);
+    };
+    this.on("upstreamRes", onUpstreamResponse);
+    this.on("proxyResWs", onUpstreamResponse);
+
+    if (options.cors) checkCorsOptions(options.cors);
+
+    if (options.circuitBreaker) {
+      this.circuits = new CircuitBreaker(this, options.circuitBreaker);
+    }
+
+    if (options.cache) {
+      this.cache = new HttpCache(
+        this,
+        options.cache === true ? {} : options.cache
+      );
+    }
+
+    if (options.trustedProxies) {
+      this.trustedProxies = new TrustedProxies(options.trustedProxies);
+    }
+
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(this, options.rateLimit);
+    }
+
+    if (options.authenticate) {
+      this.authenticator = new Authenticator(options.authenticate);
+    }
+
+    if (options.healthCheck) {
+      this.health = new HealthChecker(this, options.healthCheck);
+      []
+        .concat(options.target || [])
+        .forEach((entry) =>
+          this.health.track(
+            typeof entry === "object" && "target" in entry
+              ? entry.target
+              : entry
+          )
+        );
+      this.health.start();
+    }
   }
 
   onError(err) {
+    this.collector.onError(err);
     if (this.listeners("error").length === 1) {
       throw err;
     }
   }
 
+  /**
+   * Returns the current request, error, latency and websocket metrics.
+   *
+   * @return {Object} Snapshot of the collected metrics
+   *
+   * @api public
+   */
+
+  metrics(): MetricsSnapshot {
+    return this.collector.snapshot();
+  }
+
+  /**
+   * Request handler serving the metrics in the Prometheus text format, e.g.
+   * `http.createServer(proxy.metricsHandler)`.
+   *
+   * @api public
+   */
+
+  metricsHandler = (_req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(200, {
+      "content-type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+    res.end(this.collector.prometheus());
+  };
+
+  /**
+   * Lists the proxied websockets, from the upgrade request on.
+   *
+   * @param {Object|Function} Filter `{ target, clientAddress, path }` to
+   * match, or a function of each connection
+   *
+   * @return {Array} `{ id, clientAddress, target, path, startTime, open,
+   * bytesIn, bytesOut }` of every matching websocket
+   *
+   * @api public
+   */
+
+  wsConnections(filter?: WsConnectionFilter): WsConnectionInfo[] {
+    return this.wsRegistry
+      .select(filter)
+      .map((connection) => connection.info());
+  }
+
+  /**
+   * Closes the matching websockets with a close frame to both ends, so
+   * clients reconnect, e.g. to another target.
+   *
+   * @param {Object|Function} Filter Same as for `wsConnections`
+   * @param {Number} Code Close status code, Default: 1001
+   *
+   * @return {Number} Number of websockets closed
+   *
+   * @api public
+   */
+
+  closeWsConnections(
+    filter?: WsConnectionFilter,
+    code: number = CLOSE_CODES.goingAway
+  ): number {
+    const connections = this.wsRegistry.select(filter);
+    connections.forEach((connection) => connection.close(code));
+    return connections.length;
+  }
+
+  /**
+   * The address of the client of a request: the address it was received
+   * from, or the last one of its forwarding headers not added by one of
+   * the `trustedProxies`.
+   *
+   * @param {IncomingMessage} Req Request object
+   *
+   * @return {String} The address of the client
+   *
+   * @api public
+   */
+
+  clientAddress(req: http.IncomingMessage): string {
+    return clientAddress(req, this.trustedProxies, this.options.xfwdFormat);
+  }
+
   listen(port: number, hostname: string) {
     const self = this;
     const closure = function (req, res) {
       self.web({ req, res });
     };
 
-    this._server = this.options.ssl
-      ? https.createServer(this.options.ssl, closure)
-      : http.createServer(closure);
+    if (this.options.http2) {
+      // ALPN lets HTTP/1.1 clients in as well, cleartext HTTP/2 cannot
+      this._server = this.options.ssl
+        ? http2.createSecureServer(
+            { ...this.options.ssl, allowHTTP1: true },
+            closure
+          )
+        : http2.createServer(closure);
+      this._server.on("session", (session) =>
+        this.traffic.trackSession(session)
+      );
+    } else {
+      this._server = this.options.ssl
+        ? https.createServer(this.options.ssl, closure)
+        : http.createServer(closure);
+    }
 
     if (this.options.ws) {
       // this._server.keepAliveTimeout = 0;
@@ -77,6 +307,10 @@ export class ProxyServer extends EE3 {
 
   close(callback) {
     const self = this;
+    if (this.health) {
+      this.health.stop();
+    }
+    this.sessions.close();
     if (this._server) {
       this._server.close(done);
     }
@@ -89,36 +323,86 @@ export class ProxyServer extends EE3 {
     }
   }
 
-  before(type, passName, callback) {
-    if (type !== "ws" && type !== "web") {
-      throw new Error("type must be `web` or `ws`");
-    }
-    const passes = type === "ws" ? this.wsPasses : this.webPasses;
-    let i = false;
+  /**
+   * Stops taking new requests, which are answered with a 503, and resolves
+   * once the requests in flight finished and the websockets, sent a close
+   * frame, closed. Whatever is still open after `timeout` millis
+   * (default: 30000) is destroyed. Progress is emitted as `shutdown`,
+   * `drain` and `forceClose` events.
+   *
+   * @param {Object} Options `{ timeout }`
+   *
+   * @return {Promise} Resolves with `{ drained, destroyed }`
+   *
+   * @api public
+   */
 
-    passes.forEach(function (v, idx) {
-      if (v.name === passName) i = idx;
+  shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    if (this.shuttingDown) return this.shuttingDown;
+    if (this.health) {
+      this.health.stop();
+    }
+    const server = this._server;
+    const closed = new Promise<void>((resolve) => {
+      if (!server) return resolve();
+      server.close(() => resolve());
     });
+    this.shuttingDown = this.traffic
+      .drain(options.timeout === undefined ? 30000 : options.timeout)
+      .then(async (result) => {
+        this.sessions.close();
+        await closed;
+        if (this._server === server) this._server = null;
+        return result;
+      });
+    return this.shuttingDown;
+  }
 
-    if (i === false) throw new Error("No such pass");
+  /**
+   * Returns the registered passes of `type`.
+   *
+   * @param {String} Type `web`, `ws` or `outgoing`
+   *
+   * @return {Array} The live list of passes
+   *
+   * @api private
+   */
 
-    passes.splice(i, 0, callback);
+  passes<T extends PassType>(type: T): PassOf[T][] {
+    if (type === "web") return this.webPasses as PassOf[T][];
+    if (type === "ws") return this.wsPasses as PassOf[T][];
+    if (type === "outgoing") return this.outgoingPasses as PassOf[T][];
+    throw new Error("type must be `web`, `ws` or `outgoing`");
   }
 
-  after(type, passName, callback) {
-    if (type !== "ws" && type !== "web") {
-      throw new Error("type must be `web` or `ws`");
-    }
-    const passes = type === "ws" ? this.wsPasses : this.webPasses;
-    let i = false;
+  indexOfPass(type: PassType, passName: string): number {
+    const i = this.passes(type).findIndex((v) => v.name === passName);
+    if (i === -1) throw new Error("No such pass");
+    return i;
+  }
 
-    passes.forEach(function (v, idx) {
-      if (v.name === passName) i = idx;
-    });
+  before<T extends PassType>(type: T, passName: string, callback: PassOf[T]) {
+    const i = this.indexOfPass(type, passName);
+    this.passes(type).splice(i, 0, callback);
+  }
+
+  after<T extends PassType>(type: T, passName: string, callback: PassOf[T]) {
+    const i = this.indexOfPass(type, passName);
+    this.passes(type).splice(i + 1, 0, callback);
+  }
 
-    if (i === false) throw new Error("No such pass");
+  remove(type: PassType, passName: string) {
+    const i = this.indexOfPass(type, passName);
+    this.passes(type).splice(i, 1);
+  }
 
-    passes.splice(i++, 0, callback);
+  replace<T extends PassType>(type: T, passName: string, callback: PassOf[T]) {
+    const i = this.indexOfPass(type, passName);
+    this.passes(type).splice(i, 1, callback);
+  }
+
+  list(type: PassType): string[] {
+    return this.passes(type).map((v) => v.name);
   }
 
   all(args: {
@@ -142,6 +426,171 @@ export class ProxyServer extends EE3 {
     }
   }
 
+  /**
+   * Reports an error of a request to its `errorHandler`, or emits it. Both
+   * are counted in the metrics, emitted ones by `onError`.
+   *
+   * @api private
+   */
+
+  fail(err: Error, req, res, errorHandler?: Function, target?) {
+    if (!errorHandler) return this.emit("error", err, req, res, target);
+    this.collector.onError(err);
+    return errorHandler(err, req, res, target);
+  }
+
+  /**
+   * Returns the pool for a list of targets, creating it on first use so
+   * rotation and outstanding counters survive across requests. Only the
+   * `MAX_POOLS` most recently used lists keep theirs, as a `router` may
+   * return any number of them. The members of a pool are probed by the
+   * health checker for as long as it is kept.
+   *
+   * @param {Array} Targets List of urls or `{ target, weight }` objects
+   *
+   * @return {TargetPool} Pool shared by every request using the same list
+   *
+   * @api private
+   */
+
+  getPool(targets: Array<any>): TargetPool {
+    const key = poolKey(targets);
+    let pool = this.pools.get(key);
+    if (pool) {
+      this.pools.delete(key);
+    } else {
+      pool = new TargetPool(targets);
+      if (this.health) {
+        pool.members.forEach((m) => this.health.track(m.target));
+      }
+    }
+    this.pools.set(key, pool);
+    if (this.pools.size > MAX_POOLS) {
+      const [evictedKey, evicted] = this.pools.entries().next().value;
+      this.pools.delete(evictedKey);
+      if (this.health) this.untrackPool(evicted);
+    }
+    return pool;
+  }
+
+  /**
+   * Stops probing the members of an evicted pool that neither `target` nor
+   * a pool still kept uses.
+   *
+   * @param {TargetPool} Pool The evicted pool
+   *
+   * @api private
+   */
+
+  untrackPool(pool: TargetPool) {
+    const inUse = new Set<string>();
+    [new TargetPool([].concat(this.options.target || []))]
+      .concat(Array.from(this.pools.values()))
+      .forEach((kept) => kept.members.forEach((m) => inUse.add(m.key)));
+    pool.members.forEach((m) => {
+      if (!inUse.has(m.key)) this.health.untrack(m.target);
+    });
+  }
+
+  trackOutstanding(
+    pool: TargetPool,
+    member: PoolMember,
+    stream: http.ServerResponse | internal.Duplex
+  ) {
+    pool.acquire(member);
+    if (!stream || typeof stream.once !== "function") {
+      return pool.release(member);
+    }
+    stream.once("close", () => pool.release(member));
+  }
+
+  /**
+   * Proxies a request like `web`/`ws` do, but reports the outcome of this
+   * request only: the promise resolves once the response was sent (web) or
+   * the upstream answered the upgrade (ws), and rejects with a `ProxyError`
+   * instead of emitting `error`. Aborting `signal` destroys the upstream
+   * request and the client connection.
+   *
+   * @param {String} Type `web` or `ws`
+   * @param {Object} Args Same arguments as `web`/`ws`, plus an optional `signal`
+   *
+   * @return {Promise} Resolves with `{ statusCode, target, timings }`
+   *
+   * @api private
+   */
+
+  proxyAsync(type: "ws" | "web", args): Promise<ProxyResult> {
+    const { req, signal } = args;
+    const downstream: http.ServerResponse | internal.Duplex =
+      type === "web" ? args.res : args.socket;
+    const start = Date.now();
+    const startedAt = performance.now();
+    let upstreamRes: http.IncomingMessage;
+    let target: url.UrlWithStringQuery;
+    let headers: number;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (err?: ProxyError) => {
+        if (settled) return;
+        settled = true;
+        this.pending.delete(req);
+        if (signal) signal.removeEventListener("abort", onAbort);
+        if (err) return reject(err);
+        resolve({
+          statusCode: upstreamRes
+            ? upstreamRes.statusCode
+            : (downstream as http.ServerResponse).statusCode,
+          target,
+          timings: { start, headers, total: performance.now() - startedAt },
+        });
+      };
+      const onAbort = () => {
+        settle(
+          new ProxyError(
+            "Request aborted",
+            "ABORT_ERR",
+            req,
+            target,
+            signal.reason
+          )
+        );
+        downstream.destroy();
+      };
+
+      if (signal && signal.aborted) return onAbort();
+      if (signal) signal.addEventListener("abort", onAbort);
+
+      this.pending.set(req, (res, usedTarget) => {
+        upstreamRes = res;
+        target = usedTarget;
+        headers = performance.now() - startedAt;
+        if (type === "ws") settle();
+      });
+      if (type === "web") downstream.once("finish", () => settle());
+      downstream.once("close", () =>
+        settle(
+          new ProxyError("Client connection closed", "ECONNRESET", req, target)
+        )
+      );
+
+      const errorHandler = (err, _req, _res, usedTarget) => {
+        settle(ProxyError.from(err, req, usedTarget || target));
+      };
+      if (type === "web") {
+        this.web({ req, res: args.res, options: args.options, errorHandler });
+      } else {
+        this.ws({
+          req,
+          socket: args.socket,
+          head: args.head,
+          options: args.options,
+          errorHandler,
+        });
+      }
+    });
+  }
+
   createRightProxy(type: "ws" | "web") {
     return function processRequest(args: {
       req: http.IncomingMessage;
@@ -151,45 +600,130 @@ export class ProxyServer extends EE3 {
       errorHandler?: Function;
       options?: proxyOptions;
     }) {
-      const passes = type === "ws" ? this.wsPasses : this.webPasses;
+      const passes = this.passes(type);
       const { req, res, options, head, errorHandler, socket } = args;
+
       const requestOptions = { ...this.options, ...options };
+      // a request routed asynchronously comes back with its record, and is
+      // counted already
+      if (!requestOptions.record) {
+        requestOptions.record = new RequestRecord();
+        if (type === "web") this.collector.onRequest(req, res);
+        if (requestOptions.logger && requestOptions.accessLog !== false) {
+          requestOptions.record.logOnClose(
+            type,
+            req,
+            res || socket,
+            requestOptions.logger
+          );
+        }
+      }
+
+      if (this.traffic.draining) {
+        requestOptions.record.status = 503;
+        return this.traffic.refuse(res || socket);
+      }
+      if (type === "web") this.traffic.trackWeb(res);
+      else this.traffic.trackWs(socket);
+
+      if (requestOptions.router) {
+        let routed;
+        try {
+          routed = route(requestOptions.router, req);
+        } catch (err) {
+          return this.fail(err, req, res || socket, errorHandler);
+        }
+        if (routed && typeof routed.then === "function") {
+          routed.then(
+            (target) => {
+              // the router was consulted already, don't do it twice
+              processRequest.call(this, {
+                ...args,
+                options: {
+                  ...options,
+                  router: undefined,
+                  target: target || requestOptions.target,
+                  record: requestOptions.record,
+                },
+              });
+            },
+            (err) => this.fail(err, req, res || socket, errorHandler)
+          );
+          return;
+        }
+        if (routed) requestOptions.target = routed;
+      }
+
       ["target", "forward"].forEach((e) => {
         if (typeof requestOptions[e] === "string")
           requestOptions[e] = url.parse(requestOptions[e]);
       });
 
-      if (!requestOptions.target && !requestOptions.forward) {
-        return this.emit(
-          "error",
-          new Error("Must provide a proper URL as target"),
+      if (Array.isArray(requestOptions.target)) {
+        const pool = this.getPool(requestOptions.target);
+        const member = pool.pick(
           req,
-          res
+          requestOptions.balancer,
+          (m) =>
+            (!this.health || this.health.isHealthy(m.target)) &&
+            (!this.circuits || this.circuits.isAvailable(m.target))
         );
+        if (!member) {
+          // healthy members left out by their open circuits fail fast
+          const open = this.circuits
+            ? pool.members.filter(
+                (m) =>
+                  m.weight > 0 &&
+                  (!this.health || this.health.isHealthy(m.target))
+              )
+            : [];
+          if (open.length) {
+            requestOptions.record.status = 503;
+            return refuseOpen(
+              res || socket,
+              Math.min(...open.map((m) => this.circuits.retryAfter(m.target)))
+            );
+          }
+          return this.fail(
+            new Error("No upstream available in target pool"),
+            req,
+            res || socket,
+            errorHandler
+          );
+        }
+        this.trackOutstanding(pool, member, res || socket);
+        requestOptions.target = member.target;
       }
 
-      for (var i = 0; i < passes.length; i++) {
-        /**
-         * Call of passes functions
-         * pass(req, res, options, head)
-         *
-         * In WebSockets case the `res` variable
-         * refer to the connection socket
-         * pass(req, socket, options, head)
-         */
-        const passRes = passes[i](
+      if (!requestOptions.target && !requestOptions.forward) {
+        return this.fail(
+          new Error("Must provide a proper URL as target"),
           req,
-          res || socket,
-          requestOptions,
-          head,
-          this,
+          res,
           errorHandler
         );
-        if (passRes) {
-          // passes can return a truthy value to halt the loop
-          break;
-        }
       }
+
+      requestOptions.record.target =
+        requestOptions.target || requestOptions.forward;
+      if (type === "web")
+        this.collector.onTarget(req, requestOptions.record.target);
+
+      /**
+       * Call of passes functions
+       * pass(req, res, options, head, server, errorHandler, next)
+       *
+       * In WebSockets case the `res` variable
+       * refer to the connection socket
+       * pass(req, socket, options, head, server, errorHandler, next)
+       */
+      runPasses(
+        resolvePasses(passes, requestOptions.passes?.[type]),
+        [req, res || socket, requestOptions, head, this, errorHandler],
+        (err) => {
+          if (err) this.fail(err, req, res || socket, errorHandler);
+        }
+      );
     };
   }
 }
@@ -0,0 +1,342 @@
+import zlib from "zlib";
+import querystring from "querystring";
+import { promisify } from "util";
+import { pipeline, Duplex, PassThrough } from "stream";
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "http";
+
+export type ResponseContext = {
+  req: IncomingMessage;
+  res: ServerResponse;
+  upstreamRes: IncomingMessage;
+};
+
+export type BufferedTransform = (
+  body: Buffer,
+  context: ResponseContext
+) => Buffer | string | void | Promise<Buffer | string | void>;
+
+export type StreamingTransform = (
+  context: ResponseContext
+) => Duplex | null | undefined;
+
+export type ResponseInterceptor =
+  | BufferedTransform
+  | {
+      mode?: "buffer";
+      transform: BufferedTransform;
+      maxBodySize?: number;
+      filter?: (context: ResponseContext) => boolean;
+    }
+  | {
+      mode: "stream";
+      transform: StreamingTransform;
+      filter?: (context: ResponseContext) => boolean;
+    };
+
+export type RequestBodyType = "json" | "urlencoded" | "raw";
+
+export type RequestContext = {
+  req: IncomingMessage;
+  res: ServerResponse;
+  type: RequestBodyType;
+  headers: IncomingHttpHeaders;
+};
+
+export type RequestTransform = (
+  body: any,
+  context: RequestContext
+) => any | Promise<any>;
+
+export type RequestInterceptor =
+  | RequestTransform
+  | {
+      transform: RequestTransform;
+      maxBodySize?: number;
+      filter?: (context: {
+        req: IncomingMessage;
+        res: ServerResponse;
+      }) => boolean;
+    };
+
+const codecs = {
+  gzip: {
+    decode: zlib.createGunzip,
+    encode: zlib.createGzip,
+    encodeBuffer: promisify(zlib.gzip),
+  },
+  deflate: {
+    decode: zlib.createInflate,
+    encode: zlib.createDeflate,
+    encodeBuffer: promisify(zlib.deflate),
+  },
+  br: {
+    decode: zlib.createBrotliDecompress,
+    encode: zlib.createBrotliCompress,
+    encodeBuffer: promisify(zlib.brotliCompress),
+  },
+};
+codecs["x-gzip"] = codecs.gzip;
+
+/**
+ * Returns the codec for a `content-encoding`, `null` for identity and
+ * `undefined` for encodings that cannot be decoded.
+ *
+ * @api private
+ */
+
+function codecFor(encoding: string | undefined) {
+  const name = (encoding || "identity").trim().toLowerCase();
+  if (name === "identity") return null;
+  return codecs[name];
+}
+
+/**
+ * Statuses and methods that never carry a response body.
+ *
+ * @api private
+ */
+
+function hasBody(req: IncomingMessage, upstreamRes: IncomingMessage) {
+  const status = upstreamRes.statusCode;
+  return (
+    req.method !== "HEAD" &&
+    status !== 204 &&
+    status !== 304 &&
+    !(status >= 100 && status < 200)
+  );
+}
+
+/**
+ * Sends `upstreamRes` to `res` through the `responseInterceptor` option:
+ * the body is decoded according to `content-encoding`, handed to the user
+ * transform (whole, or as a stream), re-encoded and written with fixed
+ * `content-length`/`transfer-encoding` headers. The outgoing passes have
+ * already set the status and headers on `res` at that point.
+ *
+ * Examples:
+ *
+ *    interceptor.interceptResponse(upstreamRes, req, res, options.responseInterceptor, onError)
+ *    // => true
+ *
+ * @param {IncomingMessage} UpstreamRes Response object from the proxy request
+ * @param {ClientRequest} Req Request object
+ * @param {ServerResponse} Res Response object
+ * @param {Object|Function} Interceptor The `responseInterceptor` option
+ * @param {Function} OnError Called with errors of the decoding or transform
+ *
+ * @return {Boolean} `false` if the response cannot be intercepted and has to be piped as is
+ *
+ * @api private
+ */
+
+export function interceptResponse(
+  upstreamRes: IncomingMessage,
+  req: IncomingMessage,
+  res: ServerResponse,
+  interceptor: ResponseInterceptor,
+  onError: (err: Error) => void
+): boolean {
+  const options =
+    typeof interceptor === "function"
+      ? { mode: "buffer" as const, transform: interceptor }
+      : interceptor;
+  const context: ResponseContext = { req, res, upstreamRes };
+  const codec = codecFor(upstreamRes.headers["content-encoding"]);
+
+  if (
+    codec === undefined ||
+    !hasBody(req, upstreamRes) ||
+    (options.filter && !options.filter(context))
+  ) {
+    return false;
+  }
+
+  let failed = false;
+  const fail = (err: Error) => {
+    // errors of upstreamRes itself are reported by the `stream` pass, and a
+    // client that went away is not an error either
+    if (failed || upstreamRes.errored || req.socket.destroyed) return;
+    failed = true;
+    onError(err);
+  };
+
+  res.removeHeader("content-length");
+  res.removeHeader("transfer-encoding");
+
+  if (options.mode === "stream") {
+    const transform = options.transform(context) || new PassThrough();
+    const transforms: Duplex[] = codec
+      ? [codec.decode(), transform, codec.encode()]
+      : [transform];
+    pipeline([upstreamRes, ...transforms, res], (err: Error) => {
+      if (err) fail(err);
+    });
+    return true;
+  }
+
+  const decoded = codec ? upstreamRes.pipe(codec.decode()) : upstreamRes;
+  if (codec) {
+    upstreamRes.on("error", () => decoded.destroy());
+    decoded.on("error", fail);
+  }
+  const limit = options.maxBodySize || 10 * 1024 * 1024;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  decoded.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      const err: NodeJS.ErrnoException = new Error(
+        "Response body exceeds maxBodySize"
+      );
+      err.code = "EBODYTOOLARGE";
+      fail(err);
+      upstreamRes.destroy();
+      return decoded.destroy();
+    }
+    chunks.push(chunk);
+  });
+  decoded.on("end", () => {
+    const body = Buffer.concat(chunks);
+    Promise.resolve(options.transform(body, context))
+      .then((result) => {
+        let out = body;
+        if (Buffer.isBuffer(result)) out = result;
+        else if (typeof result === "string") out = Buffer.from(result);
+        return codec ? codec.encodeBuffer(out) : out;
+      })
+      .then((out: Buffer) => {
+        res.setHeader("content-length", out.length);
+        res.end(out);
+      })
+      .catch(fail);
+  });
+  return true;
+}
+
+/**
+ * Tells how a request body is parsed from its `content-type`.
+ *
+ * @api private
+ */
+
+function bodyType(contentType: string | undefined): RequestBodyType {
+  const mime = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (mime === "application/json" || mime.endsWith("+json")) return "json";
+  if (mime === "application/x-www-form-urlencoded") return "urlencoded";
+  return "raw";
+}
+
+/**
+ * Serializes what a request transform returned, falling back to the
+ * (possibly mutated in place) parsed body.
+ *
+ * @api private
+ */
+
+function serializeBody(value: any, type: RequestBodyType): Buffer {
+  if (Buffer.isBuffer(value)) return value;
+  if (typeof value === "string") return Buffer.from(value);
+  if (type === "urlencoded") return Buffer.from(querystring.stringify(value));
+  return Buffer.from(JSON.stringify(value));
+}
+
+/**
+ * Reads the request body from `source` and hands it to the
+ * `requestInterceptor` option: JSON and urlencoded bodies parsed, anything
+ * else as a `Buffer`. The transform may change `context.headers`, which are
+ * the request headers, and returns the new body; `content-length` is set to
+ * its size afterwards.
+ *
+ * Examples:
+ *
+ *    interceptor.interceptRequest(req, res, options.buffer || req, options.requestInterceptor)
+ *    // => Promise<Buffer>
+ *
+ * @param {IncomingMessage} Req Request object
+ * @param {ServerResponse} Res Response object
+ * @param {Stream} Source Stream the body is read from
+ * @param {Object|Function} Interceptor The `requestInterceptor` option
+ *
+ * @return {Promise|null} The body to send upstream, or `null` if the request is not intercepted
+ *
+ * @api private
+ */
+
+export function interceptRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  source: NodeJS.ReadableStream,
+  interceptor: RequestInterceptor
+): Promise<Buffer> | null {
+  const options =
+    typeof interceptor === "function"
+      ? { transform: interceptor }
+      : interceptor;
+  const hasBody =
+    req.headers["transfer-encoding"] !== undefined ||
+    Number(req.headers["content-length"]) > 0;
+
+  if (
+    !hasBody ||
+    codecFor(req.headers["content-encoding"]) !== null ||
+    (options.filter && !options.filter({ req, res }))
+  ) {
+    return null;
+  }
+
+  const limit = options.maxBodySize || 1024 * 1024;
+  const type = bodyType(req.headers["content-type"]);
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        const err: NodeJS.ErrnoException = new Error(
+          "Request body exceeds maxBodySize"
+        );
+        err.code = "EBODYTOOLARGE";
+        source.removeListener("data", onData);
+        source.removeListener("end", onEnd);
+        source.pause();
+        return reject(err);
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => resolve(Buffer.concat(chunks));
+    source.on("data", onData);
+    source.on("end", onEnd);
+    source.on("error", reject);
+  })
+    .then((raw) => {
+      let body: any = raw;
+      if (type === "json") {
+        try {
+          body = JSON.parse(raw.toString());
+        } catch (e) {
+          const err: NodeJS.ErrnoException = new Error(
+            "Request body is not valid JSON"
+          );
+          err.code = "EBODYPARSE";
+          throw err;
+        }
+      } else if (type === "urlencoded") {
+        body = querystring.parse(raw.toString());
+      }
+
+      const context: RequestContext = { req, res, type, headers: req.headers };
+      return Promise.resolve(options.transform(body, context)).then((result) =>
+        serializeBody(result === undefined ? body : result, type)
+      );
+    })
+    .then((body) => {
+      req.headers["content-length"] = String(body.length);
+      delete req.headers["transfer-encoding"];
+      return body;
+    });
+}
@@ -0,0 +1,365 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Socket } from "net";
+import { performance } from "perf_hooks";
+import type { ProxyServer } from "./index";
+import { upstreamKey } from "./common";
+
+export type MetricsOptions = {
+  buckets?: number[];
+};
+
+export type CounterSample = {
+  labels: Record<string, string>;
+  value: number;
+};
+
+export type HistogramSample = {
+  labels: Record<string, string>;
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+};
+
+export type MetricsSnapshot = {
+  requests: CounterSample[];
+  errors: CounterSample[];
+  inFlight: CounterSample[];
+  webSockets: CounterSample[];
+  upstreamHeaders: HistogramSample[];
+  duration: HistogramSample[];
+};
+
+type Histogram = {
+  labels: Record<string, string>;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+type InFlight = {
+  start: number;
+  target: string;
+  method: string;
+  counted?: boolean;
+};
+
+// Prometheus' default buckets, in seconds
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Labels identify a sample; they are stored under this key.
+ *
+ * @api private
+ */
+
+function keyOf(labels: Record<string, string>) {
+  return Object.keys(labels)
+    .map((name) => name + "=" + labels[name])
+    .join(",");
+}
+
+function targetLabel(target) {
+  return target ? upstreamKey(target) : "";
+}
+
+/**
+ * Escapes a label value for the Prometheus text format.
+ *
+ * @api private
+ */
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>) {
+  const pairs = Object.keys(labels).map(
+    (name) => name + '="' + escapeLabel(labels[name]) + '"'
+  );
+  return pairs.length ? "{" + pairs.join(",") + "}" : "";
+}
+
+/**
+ * Request, error, latency and connection metrics of a proxy, collected
+ * from its events:
+ *
+ *  - web requests entering the proxy and the close of their response:
+ *    requests by target, method and status class (`aborted` for responses
+ *    that never finished), requests in flight and total duration, whether
+ *    or not the target was contacted
+ *  - `upstreamRes`: time until the upstream sent its headers
+ *  - `error`: errors by code
+ *  - `open` and the close of the upstream socket: open websockets
+ *
+ * @api private
+ */
+
+export class Metrics {
+  server: ProxyServer;
+  buckets: number[];
+  requests: Map<string, CounterSample> = new Map();
+  errors: Map<string, CounterSample> = new Map();
+  inFlight: Map<string, CounterSample> = new Map();
+  webSockets: Map<string, CounterSample> = new Map();
+  upstreamHeaders: Map<string, Histogram> = new Map();
+  duration: Map<string, Histogram> = new Map();
+  active: WeakMap<IncomingMessage, InFlight> = new WeakMap();
+
+  constructor(server: ProxyServer, options: MetricsOptions = {}) {
+    this.server = server;
+    this.buckets = (options.buckets || DEFAULT_BUCKETS)
+      .slice()
+      .sort((a, b) => a - b);
+
+    server.on("upstreamRes", this.onUpstreamResponse, this);
+    server.on("open", this.onOpen, this);
+  }
+
+  /**
+   * Counts a web request once its response is closed. Called by
+   * `ProxyServer#web` when the request enters the proxy, so that those
+   * answered by a pass or failing early are counted too.
+   *
+   * @api private
+   */
+
+  onRequest(req: IncomingMessage, res: ServerResponse) {
+    if (!res || typeof res.once !== "function") return;
+    const request: InFlight = {
+      start: performance.now(),
+      target: "",
+      method: req.method || "",
+    };
+    this.active.set(req, request);
+
+    res.once("close", () => {
+      if (request.counted) {
+        this.add(this.inFlight, { target: request.target }, -1);
+      }
+      this.add(
+        this.requests,
+        {
+          target: request.target,
+          method: request.method,
+          status: res.writableFinished
+            ? Math.floor(res.statusCode / 100) + "xx"
+            : "aborted",
+        },
+        1
+      );
+      this.observe(
+        this.duration,
+        { target: request.target },
+        (performance.now() - request.start) / 1000
+      );
+    });
+  }
+
+  /**
+   * Counts the request in flight to `target`, once it is known.
+   *
+   * @api private
+   */
+
+  onTarget(req: IncomingMessage, target) {
+    const request = this.active.get(req);
+    if (!request || request.counted) return;
+    request.target = targetLabel(target);
+    request.counted = true;
+    this.add(this.inFlight, { target: request.target }, 1);
+  }
+
+  onUpstreamResponse(_upstreamRes, req: IncomingMessage) {
+    const request = this.active.get(req);
+    if (!request) return;
+    this.observe(
+      this.upstreamHeaders,
+      { target: request.target },
+      (performance.now() - request.start) / 1000
+    );
+  }
+
+  /**
+   * Counts an error emitted on the proxy. Called by `ProxyServer#onError`
+   * rather than from a listener of its own, which would stop unhandled
+   * errors from being thrown.
+   *
+   * @api private
+   */
+
+  onError(err: NodeJS.ErrnoException) {
+    this.add(this.errors, { code: String(err?.code || "UNKNOWN") }, 1);
+  }
+
+  onOpen(proxySocket: Socket, _req, _socket, target) {
+    // `close` is only emitted when the upstream ends the connection, the
+    // socket closes in every case
+    const labels = { target: targetLabel(target) };
+    this.add(this.webSockets, labels, 1);
+    proxySocket.once("close", () => this.add(this.webSockets, labels, -1));
+  }
+
+  add(
+    samples: Map<string, CounterSample>,
+    labels: Record<string, string>,
+    value: number
+  ) {
+    const key = keyOf(labels);
+    const sample = samples.get(key);
+    if (sample) sample.value += value;
+    else samples.set(key, { labels, value });
+  }
+
+  observe(
+    histograms: Map<string, Histogram>,
+    labels: Record<string, string>,
+    seconds: number
+  ) {
+    const key = keyOf(labels);
+    let histogram = histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      histograms.set(key, histogram);
+    }
+    this.buckets.forEach((le, i) => {
+      if (seconds <= le) histogram.counts[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Copies the current values.
+   *
+   * @return {Object} Samples of every metric
+   *
+   * @api private
+   */
+
+  snapshot(): MetricsSnapshot {
+    const counters = (samples: Map<string, CounterSample>) =>
+      Array.from(samples.values(), (sample) => ({
+        labels: { ...sample.labels },
+        value: sample.value,
+      }));
+    const histograms = (samples: Map<string, Histogram>) =>
+      Array.from(samples.values(), (histogram) => ({
+        labels: { ...histogram.labels },
+        buckets: this.buckets.map((le, i) => ({
+          le,
+          count: histogram.counts[i],
+        })),
+        sum: histogram.sum,
+        count: histogram.count,
+      }));
+
+    return {
+      requests: counters(this.requests),
+      errors: counters(this.errors),
+      inFlight: counters(this.inFlight),
+      webSockets: counters(this.webSockets),
+      upstreamHeaders: histograms(this.upstreamHeaders),
+      duration: histograms(this.duration),
+    };
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format.
+   *
+   * @return {String} The exposition
+   *
+   * @api private
+   */
+
+  prometheus(): string {
+    const snapshot = this.snapshot();
+    const lines: string[] = [];
+    const counter = (
+      name: string,
+      type: string,
+      help: string,
+      samples: CounterSample[]
+    ) => {
+      lines.push("# HELP " + name + " " + help, "# TYPE " + name + " " + type);
+      samples.forEach((sample) => {
+        lines.push(name + formatLabels(sample.labels) + " " + sample.value);
+      });
+    };
+    const histogram = (
+      name: string,
+      help: string,
+      samples: HistogramSample[]
+    ) => {
+      lines.push(
+        "# HELP " + name + " " + help,
+        "# TYPE " + name + " histogram"
+      );
+      samples.forEach((sample) => {
+        sample.buckets.forEach((bucket) => {
+          lines.push(
+            name +
+              "_bucket" +
+              formatLabels({ ...sample.labels, le: String(bucket.le) }) +
+              " " +
+              bucket.count
+          );
+        });
+        lines.push(
+          name +
+            "_bucket" +
+            formatLabels({ ...sample.labels, le: "+Inf" }) +
+            " " +
+            sample.count,
+          name + "_sum" + formatLabels(sample.labels) + " " + sample.sum,
+          name + "_count" + formatLabels(sample.labels) + " " + sample.count
+        );
+      });
+    };
+
+    counter(
+      "http_proxy_requests_total",
+      "counter",
+      "Proxied requests by target, method and status class.",
+      snapshot.requests
+    );
+    counter(
+      "http_proxy_errors_total",
+      "counter",
+      "Errors emitted by the proxy, by error code.",
+      snapshot.errors
+    );
+    counter(
+      "http_proxy_requests_in_flight",
+      "gauge",
+      "Requests being proxied.",
+      snapshot.inFlight
+    );
+    counter(
+      "http_proxy_websockets_open",
+      "gauge",
+      "Open proxied websocket connections.",
+      snapshot.webSockets
+    );
+    histogram(
+      "http_proxy_upstream_headers_seconds",
+      "Time until the upstream sent its response headers.",
+      snapshot.upstreamHeaders
+    );
+    histogram(
+      "http_proxy_request_duration_seconds",
+      "Time until the response to the client was done.",
+      snapshot.duration
+    );
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,171 @@
+import http, { IncomingMessage } from "http";
+import https from "https";
+import url from "url";
+import { proxyOptions } from "../index";
+import { copyOf, setupOutgoing, upstreamKey } from "./common";
+
+export type MirrorOptions = {
+  target: string | url.UrlWithStringQuery;
+  percentage?: number;
+  maxBodySize?: number;
+  timeout?: number;
+  compare?: boolean;
+};
+
+export type MirroredResponse = {
+  status: number;
+  body?: Buffer;
+};
+
+/**
+ * How the response of the mirror differs from the one of the target.
+ * `body` is missing from a side whose body exceeded `maxBodySize`, and
+ * `bodyMatch` is then undefined.
+ */
+export type MirrorDiff = {
+  target: string;
+  primary: MirroredResponse;
+  mirror: MirroredResponse;
+  statusMatch: boolean;
+  bodyMatch?: boolean;
+};
+
+/**
+ * A shadow copy of a request, sent to the `mirror` target once the whole
+ * body was read. The request to the target never waits for the mirror:
+ * the body is copied aside as it flows, and the mirror's errors are
+ * emitted as `mirrorError` with `(err, req, target)` rather than as
+ * `error`. With `compare`, both responses are read and `mirrorDiff` is
+ * emitted with `(diff, req)` when they differ.
+ *
+ * @api private
+ */
+
+export class Mirror {
+  options: MirrorOptions;
+  target: url.UrlWithStringQuery;
+  maxBodySize: number;
+  req: IncomingMessage;
+  proxyOptions: proxyOptions;
+  server;
+  primary: MirroredResponse | undefined;
+  shadow: MirroredResponse | undefined;
+
+  constructor(req: IncomingMessage, options: proxyOptions, server) {
+    this.options = options.mirror;
+    this.target =
+      typeof this.options.target === "string"
+        ? url.parse(this.options.target)
+        : this.options.target;
+    this.maxBodySize = this.options.maxBodySize || 1024 * 1024;
+    this.req = req;
+    this.proxyOptions = options;
+    this.server = server;
+  }
+
+  /**
+   * Whether a request is mirrored, `percentage` (0 to 100, default: 100)
+   * of them being sampled.
+   *
+   * @api private
+   */
+
+  static sample(options: MirrorOptions): boolean {
+    const percentage =
+      options.percentage === undefined ? 100 : options.percentage;
+    return Math.random() * 100 < percentage;
+  }
+
+  /**
+   * Copies the request body as it is read and sends the mirror request
+   * once it is complete.
+   *
+   * @param {Readable} Source The body, as sent to the target
+   *
+   * @api private
+   */
+
+  copy(source: NodeJS.ReadableStream) {
+    copyOf(source, this.maxBodySize, (body) => {
+      if (!body) {
+        const err: NodeJS.ErrnoException = new Error(
+          "Request body exceeds maxBodySize"
+        );
+        err.code = "EBODYTOOLARGE";
+        return this.fail(err);
+      }
+      this.send(body);
+    });
+  }
+
+  send(body: Buffer) {
+    const outgoing = setupOutgoing(
+      { ...this.proxyOptions.ssl, ...this.proxyOptions.requestOptions },
+      { ...this.proxyOptions, target: this.target },
+      this.req
+    );
+    delete outgoing.headers["transfer-encoding"];
+    if (body.length || outgoing.headers["content-length"] !== undefined) {
+      outgoing.headers["content-length"] = String(body.length);
+    }
+
+    const mirrorReq = (
+      this.target.protocol === "https:" ? https : http
+    ).request(outgoing);
+    mirrorReq.on("error", (err) => this.fail(err));
+    if (this.options.timeout) {
+      mirrorReq.setTimeout(this.options.timeout, () => {
+        const err: NodeJS.ErrnoException = new Error("Mirror timed out");
+        err.code = "ETIMEDOUT";
+        mirrorReq.destroy(err);
+      });
+    }
+    mirrorReq.on("response", (mirrorRes) => {
+      mirrorRes.on("error", (err) => this.fail(err));
+      if (!this.options.compare) return mirrorRes.resume();
+      copyOf(mirrorRes, this.maxBodySize, (body) => {
+        this.shadow = { status: mirrorRes.statusCode, body };
+        this.compare();
+      });
+    });
+    mirrorReq.end(body);
+  }
+
+  /**
+   * Copies the response of the target, to compare the mirror's with.
+   *
+   * @param {IncomingMessage} UpstreamRes Response of the target
+   *
+   * @api private
+   */
+
+  observe(upstreamRes: IncomingMessage) {
+    if (!this.options.compare) return;
+    copyOf(upstreamRes, this.maxBodySize, (body) => {
+      this.primary = { status: upstreamRes.statusCode, body };
+      this.compare();
+    });
+  }
+
+  compare() {
+    if (!this.primary || !this.shadow) return;
+    const { primary, shadow } = this;
+    const diff: MirrorDiff = {
+      target: upstreamKey(this.target),
+      primary,
+      mirror: shadow,
+      statusMatch: primary.status === shadow.status,
+      bodyMatch:
+        primary.body && shadow.body
+          ? primary.body.equals(shadow.body)
+          : undefined,
+    };
+    if (!diff.statusMatch || diff.bodyMatch === false) {
+      this.server.emit("mirrorDiff", diff, this.req);
+    }
+  }
+
+  fail(err: NodeJS.ErrnoException) {
+    this.server.emit("mirrorError", err, this.req, this.target);
+  }
+}
@@ -2,16 +2,58 @@ import httpNative, { IncomingMessage, ServerResponse } from "http";
 import httpsNative from "https";
 import webOutgoing from "./web-outgoing";
 import { UrlWithStringQuery } from "url";
-import { getPort, hasEncryptedConnection, setupOutgoing } from "../common";
+import {
+  applyPathRewrite,
+  hasEncryptedConnection,
+  setupOutgoing,
+} from "../common";
 import followRedirects from "follow-redirects";
 import { proxyOptions } from "../../index";
+import { backoff, ReplayableBody, retryPolicy, shouldRetry } from "../retry";
+import { OutgoingPass, resolvePasses, runPasses } from "../pipeline";
+import { Readable } from "stream";
+import { interceptRequest, interceptResponse } from "../interceptor";
+import { Http2UpstreamRequest, UpstreamRequest } from "../http2";
+import { RequestRecord } from "../access-log";
+import { startSpan } from "../tracing";
+import { Mirror } from "../mirror";
+import { AuthError } from "../auth";
+import { answerPreflight, isPreflight, setCorsHeaders } from "../cors";
+import { setForwardedHeaders } from "../forwarded";
+import { refuseOpen } from "../circuit-breaker";
 
-const webOutgoingPasses = Object.values(webOutgoing);
+const webOutgoingPasses: OutgoingPass[] = Object.values(webOutgoing);
 
 const nativeAgents = { http: httpNative, https: httpsNative };
 
 // https://nodejs.org/dist/latest-v18.x/docs/api/http.html#:~:text=In%20a%20successful%20request%2C%20the%20following%20events%20will%20be%20emitted%20in%20the%20following%20order%3A
 
+/**
+ * Opens the request to the target (or `forward`), through the proxy's
+ * HTTP/2 session to it if `upstreamHttp2` is specified in config.
+ *
+ * @api private
+ */
+
+function upstreamRequest(
+  agents: typeof nativeAgents,
+  requestOptions: httpNative.RequestOptions,
+  options: proxyOptions,
+  req: IncomingMessage,
+  server,
+  forward?: "forward"
+): UpstreamRequest {
+  const target = options[forward || "target"] as UrlWithStringQuery;
+  const outgoing = setupOutgoing(requestOptions, options, req, forward);
+  if (options.upstreamHttp2 && server?.sessions) {
+    const session = server.sessions.get(target, outgoing);
+    return new Http2UpstreamRequest(session, outgoing);
+  }
+  return (target.protocol === "https:" ? agents.https : agents.http).request(
+    outgoing
+  );
+}
+
 /*!
  * Array of passes.
  *
@@ -21,6 +63,32 @@ const nativeAgents = { http: httpNative, https: httpsNative };
  */
 
 export default {
+  /**
+   * Answers CORS preflight requests without contacting the target, and
+   * sets the CORS headers of the response to other requests, if `cors` is
+   * specified in config.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  cors: function cors(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions
+  ) {
+    if (!options.cors) return;
+    if (isPreflight(req)) {
+      answerPreflight(req, res, options.cors);
+      return true;
+    }
+    // also for the responses of the proxy itself, e.g. errors
+    setCorsHeaders(req, res, options.cors);
+  },
+
   /**
    * Sets `content-length` to '0' if request is of DELETE type.
    *
@@ -66,10 +134,12 @@ export default {
   },
 
   /**
-   * Sets `x-forwarded-*` headers if specified in config.
+   * Sets the forwarding headers if `xfwd` is specified in config, in the
+   * `xfwdFormat`. Those of clients other than the `trustedProxies` are
+   * replaced.
    *
    * @param {ClientRequest} Req Request object
-   * @param {IncomingMessage} Res Response object
+   * @param {IncomingMessage} Res Response object
    * @param {Object} Options Config object passed to the proxy
    *
    * @api private
@@ -78,26 +148,212 @@ export default {
   XHeaders: function XHeaders(
     req: IncomingMessage,
     res: ServerResponse,
-    options: any
+    options: any,
+    _,
+    server
   ) {
     if (!options.xfwd) return;
     // @ts-ignore
     const encrypted = req.isSpdy || hasEncryptedConnection(req);
-    const values: Record<string, any> = {
-      for: req.socket.remoteAddress || req.socket.remoteAddress,
-      port: getPort(req),
-      proto: encrypted ? "https" : "http",
-    };
+    setForwardedHeaders(
+      req,
+      encrypted ? "https" : "http",
+      options.xfwdFormat,
+      server?.trustedProxies
+    );
+  },
+
+  /**
+   * Rewrites the request path if `pathRewrite` is specified in config.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  pathRewrite: function pathRewrite(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions
+  ) {
+    return applyPathRewrite(options, req);
+  },
+
+  /**
+   * Rejects the request with a 429 if it exceeds the `rateLimit` that
+   * applies to it, and adds the `RateLimit-*` headers to the response.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
 
-    Object.keys(values).forEach((header) => {
-      req.headers["x-forwarded-" + header] =
-        (req.headers["x-forwarded-" + header] || "") +
-        (req.headers["x-forwarded-" + header] ? "," : "") +
-        values[header];
+  rateLimit: function rateLimit(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions,
+    _,
+    server
+  ) {
+    if (!server?.rateLimiter) return;
+    const hit = server.rateLimiter.hit(req, options.target);
+    if (!hit) return;
+
+    return hit.then((result) => {
+      if (!result) return;
+      const headers = server.rateLimiter.headers(result);
+      if (result.allowed) {
+        Object.keys(headers).forEach((name) =>
+          res.setHeader(name, headers[name])
+        );
+        return;
+      }
+      server.emit("rateLimit", result, req, res);
+      res.writeHead(429, { "content-type": "text/plain", ...headers });
+      res.end("Too Many Requests");
+      return true;
     });
+  },
+
+  /**
+   * Rejects the request with a 401 (or a 403) unless it authenticates as
+   * specified by `authenticate` in config. The identity is kept in
+   * `options.identity` and sent to the target in its headers.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  authenticate: function authenticate(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions,
+    _,
+    server
+  ) {
+    if (!server?.authenticator) return;
 
-    req.headers["x-forwarded-host"] =
-      req.headers["x-forwarded-host"] || req.headers["host"] || "";
+    return server.authenticator.authenticate(req).then(
+      (identity) => {
+        options.identity = identity;
+        server.authenticator.forward(req, identity);
+      },
+      (err) => {
+        if (!(err instanceof AuthError)) throw err;
+        server.emit("authError", err, req, res);
+        const headers = { "content-type": "text/plain" };
+        if (err.status === 401) {
+          headers["www-authenticate"] = server.authenticator.challenges(err);
+        }
+        res.writeHead(err.status, headers);
+        res.end(err.status === 401 ? "Unauthorized" : "Forbidden");
+        return true;
+      }
+    );
+  },
+
+  /**
+   * Buffers the request body and sends it through `requestInterceptor` if
+   * specified in config. The rewritten body replaces `options.buffer`, so
+   * the `forward` request gets it as well. Bodies above its `maxBodySize`
+   * are rejected with a 413, invalid JSON with a 400.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  requestInterceptor: function requestInterceptor(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions
+  ) {
+    if (!options.requestInterceptor) return;
+    const intercepted = interceptRequest(
+      req,
+      res,
+      options.buffer || req,
+      options.requestInterceptor
+    );
+    if (!intercepted) return;
+
+    return intercepted.then(
+      (body) => {
+        options.buffer = Readable.from([body], { objectMode: false });
+      },
+      (err) => {
+        if (err?.code !== "EBODYTOOLARGE" && err?.code !== "EBODYPARSE") {
+          throw err;
+        }
+        const tooLarge = err.code === "EBODYTOOLARGE";
+        res.writeHead(tooLarge ? 413 : 400, { "content-type": "text/plain" });
+        res.end(tooLarge ? "Payload Too Large" : "Bad Request");
+        return true;
+      }
+    );
+  },
+
+  /**
+   * Answers GET and HEAD requests from the cache if `cache` is specified
+   * in config. Otherwise the lookup is left in `options.cacheLookup`, for
+   * `stream` to revalidate or store the response of the target.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  cache: function cache(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions,
+    _,
+    server
+  ) {
+    if (!server?.cache || !options.target) return;
+    const lookup = server.cache.lookup(req, options);
+    if (!lookup) return;
+
+    return lookup.then((cached) => {
+      if (cached.serve(res)) return true;
+      options.cacheLookup = cached;
+    });
+  },
+
+  /**
+   * Rejects the request with a 503 without contacting the target while its
+   * circuit is open.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {IncomingMessage} Res Response object
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  circuitBreaker: function circuitBreaker(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: proxyOptions,
+    _,
+    server
+  ) {
+    if (!server?.circuits || !options.target) return;
+    if (server.circuits.acquire(options.target)) return;
+
+    refuseOpen(res, server.circuits.retryAfter(options.target));
+    return true;
   },
 
   /**
@@ -125,137 +381,268 @@ export default {
       "start",
       downstreamReq,
       downstreamRes,
-      options.target || options.forward
+      options.target || options.forward,
+      options.rewrittenPath
     );
 
+    const record = options.record || new RequestRecord();
+    const logAccess = options.logger && options.accessLog !== false;
+
     // @ts-ignore
     const agents: {
       http: typeof httpNative;
       https: typeof httpsNative;
     } = options.followRedirects ? followRedirects : nativeAgents;
 
-    const http = agents.http;
-    const https = agents.https;
     const requestOptions = {
       ...options.ssl,
       ...options.requestOptions,
     };
     if (options.forward) {
+      const forwardSpan = startSpan("forward", downstreamReq, options);
       // If forward enable, so just pipe the request
-      var forwardReq = (
-        (options.forward as UrlWithStringQuery).protocol === "https:"
-          ? https
-          : http
-      ).request(
-        setupOutgoing(requestOptions, options, downstreamReq, "forward")
+      var forwardReq = upstreamRequest(
+        agents,
+        requestOptions,
+        options,
+        downstreamReq,
+        server,
+        "forward"
       );
+      record.rewrittenUrl = requestOptions.path;
 
       // error handler (e.g. ECONNRESET, ECONNREFUSED)
       // Handle errors on incoming request as well as it makes sense to
       downstreamReq.on("error", proxyError);
       forwardReq.on("error", proxyError);
+      if (forwardSpan) {
+        forwardReq.on("response", (forwardRes: IncomingMessage) => {
+          forwardRes.resume();
+          forwardSpan.end(forwardRes.statusCode);
+        });
+        forwardReq.on("error", (err) => forwardSpan.end(undefined, err));
+      }
 
       (options.buffer || downstreamReq).pipe(forwardReq);
       if (!options.target) {
-        return downstreamRes.end();
+        if (logAccess) record.countIn(options.buffer || downstreamReq);
+        downstreamRes.end();
+        return true;
       }
     }
 
-    // Request initalization
-    var upstreamReq = (
-      (options.target as UrlWithStringQuery).protocol === "https:"
-        ? https
-        : http
-    ).request(setupOutgoing(requestOptions, options, downstreamReq));
-
-    // Enable developers to modify the upstreamReq before headers are sent
-    upstreamReq.on("socket", (_socket) => {
-      if (server && !upstreamReq.getHeader("expect")) {
-        server.emit(
-          "upstreamReq",
-          upstreamReq,
-          downstreamReq,
-          downstreamRes,
-          options
-        );
-      }
-    });
-
-    // allow outgoing socket to timeout so that we could
-    // show an error page at the initial request
-    if (options.proxyTimeout) {
-      upstreamReq.setTimeout(options.proxyTimeout, function () {
-        upstreamReq.destroy();
-      });
-    }
+    const retry = retryPolicy(options.retry, downstreamReq);
+    const body = retry
+      ? new ReplayableBody(options.buffer || downstreamReq, retry.maxBufferSize)
+      : null;
+    let upstreamReq: UpstreamRequest;
+    let responded = false;
+    let attempt = 0;
+    let retryTimer: NodeJS.Timeout;
+    let upstreamStatus: number;
+    const span = startSpan("web", downstreamReq, options);
 
     // ensure we destroy proxy if request is aborted
     downstreamRes.on("close", () => {
+      span?.end(upstreamStatus, record.error);
       var aborted = !downstreamRes.writableFinished;
       if (aborted) {
+        clearTimeout(retryTimer);
         upstreamReq.destroy();
       }
     });
 
     // handle errors in proxy and incoming request, just like for forward proxy
     downstreamReq.on("error", proxyError);
-    upstreamReq.on("error", proxyError);
-    upstreamReq.on("error", () => {
-      upstreamReq.destroy();
-    });
     function proxyError(err) {
       const url = options.target || options.forward;
+      record.error = err;
       // downstream request was already destroyed.
       if (downstreamReq.socket.destroyed && err.code === "ECONNRESET") {
         server.emit("econnreset", err, downstreamReq, downstreamRes, url);
         return upstreamReq.destroy();
       }
+      if (options.cacheLookup?.serveStale(downstreamRes)) return;
+
+      server.fail(err, downstreamReq, downstreamRes, errorHandler, url);
+    }
+
+    const mirror =
+      options.mirror && Mirror.sample(options.mirror)
+        ? new Mirror(downstreamReq, options, server)
+        : undefined;
+
+    sendUpstream();
+    if (logAccess) record.countIn(options.buffer || downstreamReq);
+    mirror?.copy(options.buffer || downstreamReq);
+
+    function sendUpstream() {
+      attempt++;
 
-      if (errorHandler) {
-        errorHandler(err, downstreamReq, downstreamRes, url);
+      // Request initalization
+      const attemptReq = (upstreamReq = upstreamRequest(
+        agents,
+        requestOptions,
+        options,
+        downstreamReq,
+        server
+      ));
+      record.trackAttempt(attemptReq);
+      record.rewrittenUrl = requestOptions.path;
+
+      // Enable developers to modify the upstreamReq before headers are sent
+      attemptReq.on("socket", (_socket) => {
+        if (server && !attemptReq.getHeader("expect")) {
+          server.emit(
+            "upstreamReq",
+            attemptReq,
+            downstreamReq,
+            downstreamRes,
+            options
+          );
+        }
+      });
+
+      // allow outgoing socket to timeout so that we could
+      // show an error page at the initial request
+      if (options.proxyTimeout) {
+        attemptReq.setTimeout(options.proxyTimeout, function () {
+          attemptReq.destroy();
+        });
+      }
+
+      attemptReq.on("error", (err: NodeJS.ErrnoException) => {
+        attemptReq.destroy();
+        // a client hanging up is not the upstream's fault
+        if (downstreamReq.socket.destroyed) return proxyError(err);
+
+        server?.health?.reportFailure(options.target, err);
+        server?.circuits?.reportFailure(options.target);
+
+        // only retry while nothing was sent back to the client
+        if (
+          retry &&
+          !responded &&
+          body.replayable &&
+          shouldRetry(retry, err, attempt) &&
+          server?.circuits?.state(options.target) !== "open"
+        ) {
+          body.unpipe(attemptReq);
+          if (span) span.attributes.retryCount = attempt;
+          server?.emit(
+            "retry",
+            err,
+            downstreamReq,
+            downstreamRes,
+            options.target,
+            attempt
+          );
+          retryTimer = setTimeout(() => {
+            // the body may have outgrown `maxBufferSize` in the meantime
+            if (!body.replayable) return proxyError(err);
+            sendUpstream();
+          }, backoff(retry, attempt));
+          return;
+        }
+        proxyError(err);
+      });
+
+      if (body) {
+        body.pipe(attemptReq);
       } else {
-        server.emit("error", err, downstreamReq, downstreamRes, url);
+        (options.buffer || downstreamReq).pipe(attemptReq);
       }
-    }
 
-    (options.buffer || downstreamReq).pipe(upstreamReq);
+      attemptReq.on("response", forwardResponse);
+    }
 
-    upstreamReq.on("response", function forwardResponse(upstreamRes) {
+    function forwardResponse(upstreamRes: IncomingMessage) {
+      responded = true;
+      upstreamStatus = upstreamRes.statusCode;
       upstreamRes.on("error", proxyError);
 
+      if (server?.health) {
+        server.health.reportSuccess(options.target);
+      }
+      if (server?.circuits) {
+        if (server.circuits.isFailureStatus(upstreamRes.statusCode)) {
+          server.circuits.reportFailure(options.target);
+        } else {
+          server.circuits.reportSuccess(options.target);
+        }
+      }
+
       if (server) {
-        server.emit("upstreamRes", upstreamRes, downstreamReq, downstreamRes);
+        server.emit(
+          "upstreamRes",
+          upstreamRes,
+          downstreamReq,
+          downstreamRes,
+          options.target
+        );
+      }
+      if (options.cacheLookup?.serveInstead(upstreamRes, downstreamRes)) {
+        return;
       }
-      if (!downstreamRes.headersSent && !options.selfHandleResponse) {
-        for (var i = 0; i < webOutgoingPasses.length; i++) {
+      if (downstreamRes.headersSent || options.selfHandleResponse) {
+        return respond();
+      }
+      runPasses(
+        resolvePasses(
+          server?.outgoingPasses || webOutgoingPasses,
+          options.passes?.outgoing
+        ),
+        [downstreamReq, downstreamRes, upstreamRes, options, server],
+        (err) => {
+          if (!err) return respond();
+          upstreamRes.destroy();
+          proxyError(err);
+        }
+      );
+
+      function respond() {
+        if (!downstreamRes.writableEnded) {
+          // Allow us to listen when the proxy has completed
+          upstreamRes.on("end", () => {
+            if (server)
+              server.emit(
+                "end",
+                downstreamReq,
+                downstreamRes,
+                upstreamRes,
+                record.finish()
+              );
+          });
+          // We pipe to the response unless its expected to be handled by the user
+          // https://nodejs.org/api/stream.html#readablepipedestination-options
+          if (options.selfHandleResponse) return;
+          if (logAccess) record.countOut(upstreamRes);
+          mirror?.observe(upstreamRes);
+          options.cacheLookup?.store(upstreamRes, downstreamRes);
           if (
-            // @ts-ignore - can return boolean
-            webOutgoingPasses[i](
+            !options.responseInterceptor ||
+            !interceptResponse(
+              upstreamRes,
               downstreamReq,
               downstreamRes,
-              upstreamRes,
-              options
+              options.responseInterceptor,
+              proxyError
             )
           ) {
-            break;
+            upstreamRes.pipe(downstreamRes);
           }
-        }
-      }
-
-      if (!downstreamRes.writableEnded) {
-        // Allow us to listen when the proxy has completed
-        upstreamRes.on("end", () => {
+        } else {
+          upstreamRes.destroy();
           if (server)
-            server.emit("end", downstreamReq, downstreamRes, upstreamRes);
-        });
-        // We pipe to the response unless its expected to be handled by the user
-        // https://nodejs.org/api/stream.html#readablepipedestination-options
-        if (!options.selfHandleResponse) upstreamRes.pipe(downstreamRes);
-      } else {
-        upstreamRes.destroy();
-        if (server)
-          server.emit("end", downstreamReq, downstreamRes, upstreamRes);
+            server.emit(
+              "end",
+              downstreamReq,
+              downstreamRes,
+              upstreamRes,
+              record.finish()
+            );
+        }
       }
-    });
+    }
   },
 };
@@ -1,6 +1,9 @@
 import url from "url";
 import type { IncomingMessage, ServerResponse } from "http";
-import { rewriteCookieProperty } from "../common";
+import { rewriteCookieProperty, withoutHopByHop } from "../common";
+import { stripConnectionHeaders } from "../http2";
+import { setCorsHeaders } from "../cors";
+import { applyHeaderRules } from "../header-rules";
 
 var redirectRegex = /^201|30(1|2|7|8)$/;
 
@@ -89,7 +92,9 @@ export default {
   },
   /**
    * Copy headers from upstreamResponse to response
-   * set each header in response object.
+   * set each header in response object, leaving out the hop-by-hop ones
+   * and applying the `responseHeaders` rules. The CORS headers are those
+   * of the `cors` option, if specified.
    *
    * @param {ClientRequest} Req Request object
    * @param {IncomingMessage} Res Response object
@@ -143,13 +148,26 @@ export default {
       }
     }
 
-    Object.keys(upstreamRes.headers).forEach(function (key) {
-      var header = upstreamRes.headers[key];
+    // HTTP/2 responses must not carry connection-specific headers, the
+    // `connection` of HTTP/1 ones is the one set by `setConnection`
+    const headers = applyHeaderRules(
+      req.httpVersionMajor === 2
+        ? stripConnectionHeaders(upstreamRes.headers)
+        : withoutHopByHop(upstreamRes.headers, ["connection"]),
+      options.responseHeaders || [],
+      req,
+      upstreamRes.statusCode
+    );
+
+    Object.keys(headers).forEach(function (key) {
+      var header = headers[key];
       if (preserveHeaderKeyCase && rawHeaderKeyMap) {
         key = rawHeaderKeyMap[key] || key;
       }
       setHeader(key, header);
     });
+
+    if (options.cors) setCorsHeaders(req, res, options.cors);
   },
 
   /**
@@ -168,7 +186,8 @@ export default {
   ) {
     // From Node.js docs: response.writeHead(statusCode[, statusMessage][, headers])
     res.statusCode = upstreamRes.statusCode as number;
-    if (upstreamRes.statusMessage) {
+    // HTTP/2 has no status message
+    if (upstreamRes.statusMessage && req.httpVersionMajor !== 2) {
       res.statusMessage = upstreamRes.statusMessage;
     }
   },
@@ -1,7 +1,7 @@
 import http, { IncomingMessage } from "http";
 import https from "https";
 import {
-  getPort,
+  applyPathRewrite,
   hasEncryptedConnection,
   isSSL,
   isWebsocket,
@@ -9,6 +9,31 @@ import {
   setupSocket,
 } from "../common";
 import { Socket } from "net";
+import { RequestRecord } from "../access-log";
+import { startSpan } from "../tracing";
+import { AuthError } from "../auth";
+import { setForwardedHeaders } from "../forwarded";
+import { CLOSE_CODES, closeWebSocket, MessageRelay } from "../ws-frames";
+import { WsCloseReason, WsTimeouts } from "../ws-timeouts";
+
+// millis the ends get to answer a close frame of the proxy
+const CLOSE_GRACE = 5000;
+
+/**
+ * Refuses the upgrade with a response of `status` and closes the socket.
+ *
+ * @param {Socket} Websocket
+ * @param {Object} Options Config object passed to the proxy
+ * @param {Number} Status Status code of the response
+ * @param {String} Head Status line and headers of the response
+ *
+ * @api private
+ */
+
+function reject(socket, options, status: number, head: string) {
+  if (options.record) options.record.status = status;
+  socket.end(head + "Connection: close\r\n\r\n");
+}
 
 /*!
  * Array of passes.
@@ -42,32 +67,177 @@ export default {
   },
 
   /**
-   * Sets `x-forwarded-*` headers if specified in config.
+   * Sets the forwarding headers if `xfwd` is specified in config, in the
+   * `xfwdFormat`. Those of clients other than the `trustedProxies` are
+   * replaced.
    *
    * @param {ClientRequest} Req Request object
-   * @param {Socket} Websocket
+   * @param {Socket} Websocket
    * @param {Object} Options Config object passed to the proxy
    *
    * @api private
    */
 
-  XHeaders: function xHeaders(req: IncomingMessage, _socket, options) {
+  XHeaders: function XHeaders(
+    req: IncomingMessage,
+    _socket,
+    options,
+    _,
+    server
+  ) {
     if (!options.xfwd) return;
+    setForwardedHeaders(
+      req,
+      hasEncryptedConnection(req) ? "wss" : "ws",
+      options.xfwdFormat,
+      server?.trustedProxies
+    );
+  },
 
-    const values = {
-      for: req.socket.remoteAddress,
-      port: getPort(req),
-      proto: hasEncryptedConnection(req) ? "wss" : "ws",
-    };
+  /**
+   * Rewrites the request path if `pathRewrite` is specified in config.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {Socket} Websocket
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
 
-    ["for", "port", "proto"].forEach((header) => {
-      req.headers["x-forwarded-" + header] =
-        (req.headers["x-forwarded-" + header] || "") +
-        (req.headers["x-forwarded-" + header] ? "," : "") +
-        values[header];
+  pathRewrite: function pathRewrite(req: IncomingMessage, _socket, options) {
+    return applyPathRewrite(options, req);
+  },
+
+  /**
+   * Rejects the upgrade with a 429 if it exceeds the `rateLimit` that
+   * applies to it.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {Socket} Websocket
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  rateLimit: function rateLimit(req, socket, options, _, server) {
+    if (!server?.rateLimiter) return;
+    const hit = server.rateLimiter.hit(req, options.target);
+    if (!hit) return;
+
+    return hit.then((result) => {
+      if (!result || result.allowed) return;
+      const headers = server.rateLimiter.headers(result);
+      server.emit("rateLimit", result, req, socket);
+      reject(
+        socket,
+        options,
+        429,
+        "HTTP/1.1 429 Too Many Requests\r\n" +
+          Object.keys(headers)
+            .map((name) => name + ": " + headers[name] + "\r\n")
+            .join("")
+      );
+      return true;
     });
   },
 
+  /**
+   * Rejects the upgrade with a 401 (or a 403) unless it authenticates as
+   * specified by `authenticate` in config, before the target is contacted.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {Socket} Websocket
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  authenticate: function authenticate(req, socket, options, _, server) {
+    if (!server?.authenticator) return;
+
+    return server.authenticator.authenticate(req).then(
+      (identity) => {
+        options.identity = identity;
+        server.authenticator.forward(req, identity);
+      },
+      (err) => {
+        if (!(err instanceof AuthError)) throw err;
+        server.emit("authError", err, req, socket);
+        reject(
+          socket,
+          options,
+          err.status,
+          err.status === 401
+            ? "HTTP/1.1 401 Unauthorized\r\n" +
+                server.authenticator
+                  .challenges(err)
+                  .map((challenge) => "WWW-Authenticate: " + challenge + "\r\n")
+                  .join("")
+            : "HTTP/1.1 403 Forbidden\r\n"
+        );
+        return true;
+      }
+    );
+  },
+
+  /**
+   * Rejects the upgrade with a 503 without contacting the target while its
+   * circuit is open.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {Socket} Websocket
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  circuitBreaker: function circuitBreaker(req, socket, options, _, server) {
+    if (!server?.circuits || !options.target) return;
+    if (server.circuits.acquire(options.target)) return;
+
+    reject(
+      socket,
+      options,
+      503,
+      "HTTP/1.1 503 Service Unavailable\r\n" +
+        "Retry-After: " +
+        Math.ceil(server.circuits.retryAfter(options.target) / 1000) +
+        "\r\n"
+    );
+    return true;
+  },
+
+  /**
+   * Rejects the upgrade with a 503 if it would exceed the `wsLimits` of
+   * open websockets per target or per client address.
+   *
+   * @param {ClientRequest} Req Request object
+   * @param {Socket} Websocket
+   * @param {Object} Options Config object passed to the proxy
+   *
+   * @api private
+   */
+
+  connectionLimits: function connectionLimits(
+    req: IncomingMessage,
+    socket,
+    options,
+    _,
+    server
+  ) {
+    if (!options.wsLimits || !server?.wsRegistry) return;
+    const exceeded = server.wsRegistry.exceeds(
+      options.wsLimits,
+      req,
+      options.target
+    );
+    if (!exceeded) return;
+
+    server.emit("wsLimit", exceeded, req, socket, options.target);
+    reject(socket, options, 503, "HTTP/1.1 503 Service Unavailable\r\n");
+    return true;
+  },
+
   /**
    * Does the actual proxying. Make the request and upgrade it
    * send the Switching Protocols request and pipe the sockets.
@@ -111,11 +281,14 @@ export default {
 
     if (head && head.length) socket.unshift(head);
 
+    const connection = server.wsRegistry?.add(req, socket, options.target);
+
     const requestOptions = {
       ...options.ssl,
       ...options.requestOptions,
     };
 
+    const span = startSpan("ws", req, options);
     var upstreamReq = (
       isSSL.test(options.target.protocol) ? https : http
     ).request(setupOutgoing(requestOptions, options, req));
@@ -123,9 +296,31 @@ export default {
     // Enable developers to modify the upstreamReq before headers are sent
     server.emit("proxyReqWs", upstreamReq, req, socket, options, head);
 
+    const record = options.record || new RequestRecord();
+    record.trackAttempt(upstreamReq);
+    record.rewrittenUrl = requestOptions.path;
+
+    // Tear the upstream side down if the client goes away, whether or not
+    // the upgrade already happened.
+    let upgradedSocket: Socket;
+    let clientClosed = false;
+    socket.on("close", () => {
+      clientClosed = true;
+      span?.end(record.status, record.error);
+      if (upgradedSocket) upgradedSocket.destroy();
+      else upstreamReq.destroy();
+    });
+
     // Error Handler
     upstreamReq.on("error", onOutgoingError);
     upstreamReq.on("response", (upstreamRes) => {
+      record.status = upstreamRes.statusCode;
+      server.health?.reportSuccess(options.target);
+      if (server.circuits?.isFailureStatus(upstreamRes.statusCode)) {
+        server.circuits.reportFailure(options.target);
+      } else {
+        server.circuits?.reportSuccess(options.target);
+      }
       // if upgrade event isn't going to happen, close the socket
       // @ts-ignore
       if (!upstreamRes.upgrade) {
@@ -141,16 +336,25 @@ export default {
           )
         );
         upstreamRes.pipe(socket);
+        server.emit("proxyResWs", upstreamRes, req, socket, options.target);
       }
     });
 
     upstreamReq.on("upgrade", (upstreamRes, upstreamSocket, proxyHead) => {
+      record.status = 101;
+      server.health?.reportSuccess(options.target);
+      server.circuits?.reportSuccess(options.target);
+      upgradedSocket = upstreamSocket;
       upstreamSocket.on("error", onOutgoingError);
 
       // Allow us to listen when the websocket has completed
-      upstreamSocket.on("end", () => {
-        server.emit("close", upstreamRes, upstreamSocket, proxyHead);
-      });
+      let closeReason: WsCloseReason;
+      const emitClose = (reason: WsCloseReason) => {
+        if (closeReason) return;
+        closeReason = reason;
+        server.emit("close", upstreamRes, upstreamSocket, proxyHead, reason);
+      };
+      upstreamSocket.on("end", () => emitClose("end"));
 
       // The pipe below will end upstreamSocket if socket closes cleanly, but not
       // if it errors (eg, vanishes from the net and starts returning
@@ -174,20 +378,66 @@ export default {
         )
       );
 
-      upstreamSocket.pipe(socket).pipe(upstreamSocket);
+      let relay: MessageRelay;
+      if (options.wsMessages || options.wsTimeouts?.pingInterval) {
+        relay = new MessageRelay(
+          req,
+          socket,
+          upstreamSocket,
+          upstreamRes.headers["sec-websocket-extensions"],
+          typeof options.wsMessages === "object" ? options.wsMessages : {},
+          server,
+          (err) => server.fail(err, req, socket, errorHandler, options.target)
+        );
+      } else {
+        upstreamSocket.pipe(socket).pipe(upstreamSocket);
+      }
+      connection?.opened(upstreamSocket, relay);
+      if (options.wsTimeouts) {
+        new WsTimeouts(
+          socket,
+          upstreamSocket,
+          relay,
+          options.wsTimeouts,
+          (reason) => {
+            emitClose(reason);
+            closeWebSocket(
+              socket,
+              upstreamSocket,
+              CLOSE_CODES.goingAway,
+              relay
+            );
+            // an end that is gone won't close its side
+            const grace = setTimeout(() => {
+              socket.destroy();
+              upstreamSocket.destroy();
+            }, CLOSE_GRACE);
+            socket.once("close", () => clearTimeout(grace));
+          }
+        );
+      }
+      if (options.logger && options.accessLog !== false) {
+        record.countIn(socket);
+        record.countOut(upstreamSocket);
+      }
 
-      server.emit("open", upstreamSocket);
+      server.emit("proxyResWs", upstreamRes, req, socket, options.target);
+      server.emit("open", upstreamSocket, req, socket, options.target);
       server.emit("proxySocket", upstreamSocket); //DEPRECATED.
     });
 
-    return upstreamReq.end(); // XXX: CHECK IF THIS IS THIS CORRECT
+    upstreamReq.end();
+    return true;
 
     function onOutgoingError(err) {
-      if (errorHandler) {
-        errorHandler(err, req, socket);
-      } else {
-        server.emit("error", err, req, socket);
+      record.error = err;
+      // the client hung up, nothing left to report to
+      if (clientClosed) {
+        return server.emit("econnreset", err, req, socket, options.target);
       }
+      server.health?.reportFailure(options.target, err);
+      server.circuits?.reportFailure(options.target);
+      server.fail(err, req, socket, errorHandler, options.target);
       socket.end();
     }
   },
@@ -0,0 +1,162 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Duplex } from "stream";
+import type { ProxyServer } from "./index";
+import type { proxyOptions } from "../index";
+
+export type ErrorHandler = (
+  err: Error,
+  req: IncomingMessage,
+  res: ServerResponse | Duplex,
+  target?: any
+) => void;
+
+export type Next = (err?: Error) => void;
+
+/**
+ * What a pass returns: a truthy value halts the pipeline, a promise is
+ * awaited first. A pass that declares the trailing `next` parameter instead
+ * continues the pipeline only once `next()` is called.
+ */
+export type PassResult = void | boolean | Promise<void | boolean>;
+
+export type WebPass = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: proxyOptions,
+  head: Buffer | undefined,
+  server: ProxyServer,
+  errorHandler: ErrorHandler | undefined,
+  next: Next
+) => PassResult;
+
+export type WsPass = (
+  req: IncomingMessage,
+  socket: Duplex,
+  options: proxyOptions,
+  head: Buffer,
+  server: ProxyServer,
+  errorHandler: ErrorHandler | undefined,
+  next: Next
+) => PassResult;
+
+export type OutgoingPass = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  upstreamRes: IncomingMessage,
+  options: proxyOptions,
+  server: ProxyServer,
+  next: Next
+) => PassResult;
+
+export type PassType = "web" | "ws" | "outgoing";
+
+/** The signature of the passes of each type. */
+export type PassOf = {
+  web: WebPass;
+  ws: WsPass;
+  outgoing: OutgoingPass;
+};
+
+export type PassOverride<T> = T[] | ((passes: T[]) => T[]);
+
+export type PassOverrides = {
+  web?: PassOverride<WebPass>;
+  ws?: PassOverride<WsPass>;
+  outgoing?: PassOverride<OutgoingPass>;
+};
+
+/**
+ * Applies a per-request override (`options.passes`) to a list of passes.
+ *
+ * Examples:
+ *
+ *    pipeline.resolvePasses(server.webPasses, (passes) => [auth, ...passes])
+ *    // => [auth, deleteLength, timeout, ...]
+ *
+ * @param {Array} Passes Passes registered on the proxy
+ * @param {Array|Function} Override Replacement list, or a function of the registered list
+ *
+ * @return {Array} Passes to run for this request
+ *
+ * @api private
+ */
+
+export function resolvePasses<T>(passes: T[], override?: PassOverride<T>): T[] {
+  if (!override) return passes;
+  return typeof override === "function" ? override(passes.slice()) : override;
+}
+
+/**
+ * Runs `passes` in order with `args`, then calls `callback(err, halted)`.
+ *
+ * As long as every pass is synchronous the whole pipeline, callback
+ * included, runs synchronously: only a pass returning a promise or waiting
+ * to call `next` defers the rest.
+ *
+ * @param {Array} Passes Functions to run
+ * @param {Array} Args Arguments every pass is called with (`next` is appended)
+ * @param {Function} Callback Called once with an error or whether a pass halted
+ *
+ * @api private
+ */
+
+export function runPasses(
+  passes: Function[],
+  args: any[],
+  callback: (err: Error | null, halted: boolean) => void
+) {
+  let index = 0;
+  let finished = false;
+  const finish = (err: Error | null, halted: boolean) => {
+    if (finished) return;
+    finished = true;
+    callback(err, halted);
+  };
+
+  const run = () => {
+    while (!finished && index < passes.length) {
+      const pass = passes[index++];
+      const wantsNext = pass.length > args.length;
+      let sync = true;
+      let nextCalled = false;
+      let continueSync = false;
+      const next: Next = (err) => {
+        if (nextCalled) return;
+        nextCalled = true;
+        if (err) return finish(err, true);
+        if (sync) continueSync = true;
+        else run();
+      };
+
+      let result;
+      try {
+        result = pass(...args, next);
+      } catch (err) {
+        return finish(err, true);
+      }
+      sync = false;
+
+      const isPromise = result && typeof result.then === "function";
+      if (isPromise) {
+        result.then(
+          (halt) => {
+            // `next` decides when to go on for passes that declare it
+            if (wantsNext) return;
+            if (halt) finish(null, true);
+            else run();
+          },
+          (err) => finish(err || new Error("Pass rejected"), true)
+        );
+      }
+      if (wantsNext) {
+        if (continueSync) continue;
+        return;
+      }
+      if (isPromise) return;
+      if (result) return finish(null, true);
+    }
+    finish(null, false);
+  };
+
+  run();
+}
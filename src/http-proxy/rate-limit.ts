@@ -0,0 +1,298 @@
+import { IncomingMessage } from "http";
+import url from "url";
+import { upstreamKey } from "./common";
+import { clientAddress, TrustedProxies } from "./forwarded";
+
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+/**
+ * What requests are counted by: the client address, the value of a
+ * header (e.g. an API key) or the string returned by a function. Requests
+ * without a key are counted by client address.
+ */
+export type RateLimitKey =
+  | "ip"
+  | { header: string }
+  | ((req: IncomingMessage) => string | undefined);
+
+/**
+ * A limit of `limit` requests per `window` millis, for the requests to
+ * the given `path` (a prefix or a RegExp), `method` and `target`, each
+ * of them matching any request if missing.
+ */
+export type RateLimitRule = {
+  limit: number;
+  window?: number;
+  algorithm?: RateLimitAlgorithm;
+  key?: RateLimitKey;
+  path?: string | RegExp;
+  method?: string | string[];
+  target?: string;
+};
+
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Where the state of each key is kept, for `ttl` millis after its last
+ * change. Each method may return a promise; requests are let through
+ * when it fails.
+ */
+export type RateLimitStore = {
+  get(key: string): RateLimitState | undefined | Promise<RateLimitState>;
+  set(key: string, state: RateLimitState, ttl: number): void | Promise<void>;
+};
+
+export type RateLimitOptions = Partial<RateLimitRule> & {
+  routes?: RateLimitRule[];
+  store?: RateLimitStore;
+  trustedProxies?: string[];
+  headers?: boolean;
+};
+
+export type RateLimitResult = {
+  key: string;
+  limit: number;
+  window: number;
+  remaining: number;
+  reset: number;
+  retryAfter: number;
+  allowed: boolean;
+};
+
+// the store is swept of expired keys this often
+const SWEEP_INTERVAL = 60000;
+
+/**
+ * Keeps states in memory, dropping them once expired.
+ *
+ * @api private
+ */
+
+export class MemoryRateLimitStore {
+  states: Map<string, { state: RateLimitState; expires: number }> = new Map();
+  nextSweep = Date.now() + SWEEP_INTERVAL;
+
+  get(key: string): RateLimitState | undefined {
+    const stored = this.states.get(key);
+    return stored && stored.expires > Date.now() ? stored.state : undefined;
+  }
+
+  set(key: string, state: RateLimitState, ttl: number) {
+    const now = Date.now();
+    this.states.set(key, { state, expires: now + ttl });
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + SWEEP_INTERVAL;
+    this.states.forEach((stored, key) => {
+      if (stored.expires <= now) this.states.delete(key);
+    });
+  }
+}
+
+/**
+ * Takes a request out of a bucket of `limit` tokens, refilled at
+ * `limit` tokens per `window`.
+ *
+ * @api private
+ */
+
+function tokenBucket(
+  state: RateLimitState | undefined,
+  limit: number,
+  window: number,
+  now: number
+) {
+  const rate = limit / window;
+  const tokens = state
+    ? Math.min(limit, state.tokens + (now - state.updated) * rate)
+    : limit;
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+  return {
+    state: { tokens: left, updated: now },
+    allowed,
+    remaining: Math.floor(left),
+    reset: (limit - left) / rate,
+    retryAfter: allowed ? 0 : (1 - left) / rate,
+  };
+}
+
+/**
+ * Counts a request in the current `window`, weighting the count of the
+ * previous one by how much of it still overlaps the sliding window.
+ *
+ * @api private
+ */
+
+function slidingWindow(
+  state: RateLimitState | undefined,
+  limit: number,
+  window: number,
+  now: number
+) {
+  const start = now - (now % window);
+  let previous = 0;
+  let current = 0;
+  if (state && state.start === start) {
+    previous = state.previous;
+    current = state.current;
+  } else if (state && state.start === start - window) {
+    previous = state.current;
+  }
+
+  const elapsed = now - start;
+  const count = previous * (1 - elapsed / window) + current;
+  const allowed = count + 1 <= limit;
+  if (allowed) current++;
+
+  // when the weighted count drops below the limit again
+  let retryAfter = 0;
+  if (!allowed) {
+    retryAfter =
+      current >= limit
+        ? window - elapsed + window * (1 - (limit - 1) / current)
+        : window * (1 - (limit - 1 - current) / previous) - elapsed;
+  }
+  return {
+    state: { start, previous, current },
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - count - (allowed ? 1 : 0))),
+    reset: window - elapsed,
+    retryAfter: Math.max(0, retryAfter),
+  };
+}
+
+/**
+ * Rate limits by token bucket or sliding window, per key and rule. The
+ * first of the `routes` matching a request applies, or else the limit of
+ * the options themselves, if any. Rejected requests are emitted as
+ * `rateLimit` with `(result, req, res)`.
+ *
+ * @api private
+ */
+
+export class RateLimiter {
+  server;
+  options: RateLimitOptions;
+  store: RateLimitStore;
+  trusted: TrustedProxies | undefined;
+
+  constructor(server, options: RateLimitOptions) {
+    this.server = server;
+    this.options = options;
+    this.store = options.store || new MemoryRateLimitStore();
+    this.trusted = options.trustedProxies
+      ? new TrustedProxies(options.trustedProxies)
+      : server?.trustedProxies;
+  }
+
+  /**
+   * The address of the client: the socket's, or with `trustedProxies`
+   * the last forwarded address not added by a trusted proxy.
+   *
+   * @api private
+   */
+
+  clientAddress(req: IncomingMessage): string {
+    return clientAddress(req, this.trusted, this.server?.options.xfwdFormat);
+  }
+
+  rule(req: IncomingMessage, target): [RateLimitRule, string] | undefined {
+    const path = url.parse(req.url).pathname || "/";
+    const index = (this.options.routes || []).findIndex(
+      (route) =>
+        (!route.path ||
+          (typeof route.path === "string"
+            ? path.startsWith(route.path)
+            : route.path.test(path))) &&
+        (!route.method ||
+          []
+            .concat(route.method)
+            .some(
+              (method) => method.toUpperCase() === req.method.toUpperCase()
+            )) &&
+        (!route.target ||
+          upstreamKey(url.parse(route.target)) === upstreamKey(target))
+    );
+    if (index !== -1) {
+      return [
+        { ...this.options, ...this.options.routes[index] },
+        "route" + index,
+      ];
+    }
+    if (this.options.limit) return [this.options as RateLimitRule, "default"];
+  }
+
+  key(req: IncomingMessage, rule: RateLimitRule): string {
+    const key = rule.key || "ip";
+    let value: string | undefined;
+    if (typeof key === "function") value = key(req);
+    else if (key !== "ip") {
+      value = [].concat(req.headers[key.header.toLowerCase()] || [])[0];
+    }
+    return value || this.clientAddress(req);
+  }
+
+  /**
+   * Counts a request against the rule that applies to it.
+   *
+   * @param {IncomingMessage} Req Request object
+   * @param {Object} Target Target of the request
+   *
+   * @return {Promise|undefined} The result, nothing if no rule applies
+   *
+   * @api private
+   */
+
+  hit(req: IncomingMessage, target): Promise<RateLimitResult> | undefined {
+    const applied = this.rule(req, target);
+    if (!applied) return;
+    const [rule, name] = applied;
+    const window = rule.window || 60000;
+    const key = name + ":" + this.key(req, rule);
+    const count =
+      rule.algorithm === "sliding-window" ? slidingWindow : tokenBucket;
+
+    return Promise.resolve()
+      .then(() => this.store.get(key))
+      .then((state) => {
+        const counted = count(state, rule.limit, window, Date.now());
+        const result: RateLimitResult = {
+          key,
+          limit: rule.limit,
+          window,
+          remaining: counted.remaining,
+          reset: counted.reset,
+          retryAfter: counted.retryAfter,
+          allowed: counted.allowed,
+        };
+        return Promise.resolve(this.store.set(key, counted.state, window * 2))
+          .catch(() => undefined)
+          .then(() => result);
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * The `RateLimit-*` headers of a result, unless `headers` is false, and
+   * `Retry-After` if rejected.
+   *
+   * @api private
+   */
+
+  headers(result: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> =
+      this.options.headers === false
+        ? {}
+        : {
+            "ratelimit-limit": String(result.limit),
+            "ratelimit-remaining": String(result.remaining),
+            "ratelimit-reset": String(Math.ceil(result.reset / 1000)),
+            "ratelimit-policy":
+              result.limit + ";w=" + Math.ceil(result.window / 1000),
+          };
+    if (!result.allowed) {
+      headers["retry-after"] = String(Math.ceil(result.retryAfter / 1000));
+    }
+    return headers;
+  }
+}
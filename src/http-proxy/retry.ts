@@ -0,0 +1,169 @@
+import type { IncomingMessage } from "http";
+import type { Readable, Writable } from "stream";
+
+export type RetryOptions = {
+  attempts?: number;
+  delay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: boolean;
+  methods?: string[];
+  codes?: string[];
+  maxBufferSize?: number;
+};
+
+const defaults: RetryOptions = {
+  attempts: 3,
+  delay: 100,
+  maxDelay: 2000,
+  factor: 2,
+  jitter: true,
+  // RFC 9110 idempotent methods
+  methods: ["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"],
+  codes: [
+    "ECONNREFUSED",
+    "ECONNRESET",
+    "EPIPE",
+    "ETIMEDOUT",
+    "EHOSTUNREACH",
+    "ENETUNREACH",
+    "EAI_AGAIN",
+  ],
+  maxBufferSize: 1024 * 1024,
+};
+
+/**
+ * Resolves the `retry` option into a full policy, or `null` when the
+ * request must not be retried at all.
+ *
+ * Examples:
+ *
+ *    retry.retryPolicy({ attempts: 5 }, req)
+ *    // => { attempts: 5, delay: 100, ... }
+ *
+ * @param {Object} Options The `retry` option
+ * @param {ClientRequest} Req Request object
+ *
+ * @return {Object} Policy with defaults applied
+ *
+ * @api private
+ */
+
+export function retryPolicy(
+  options: RetryOptions | undefined,
+  req: IncomingMessage
+): RetryOptions | null {
+  if (!options) return null;
+  const policy = { ...defaults, ...options };
+  if (policy.attempts < 2) return null;
+  if (!policy.methods.includes((req.method || "GET").toUpperCase())) {
+    return null;
+  }
+  return policy;
+}
+
+/**
+ * Checks whether a failed attempt can be tried again.
+ *
+ * @param {Object} Policy Resolved retry policy
+ * @param {Error} Err Error of the failed attempt
+ * @param {Number} Attempt Number of attempts made so far
+ *
+ * @return {Boolean} Whether another attempt is allowed
+ *
+ * @api private
+ */
+
+export function shouldRetry(
+  policy: RetryOptions,
+  err: NodeJS.ErrnoException,
+  attempt: number
+): boolean {
+  return attempt < policy.attempts && policy.codes.includes(err.code);
+}
+
+/**
+ * Exponential backoff with optional full jitter.
+ *
+ * @param {Object} Policy Resolved retry policy
+ * @param {Number} Attempt Number of attempts made so far (1 for the first retry)
+ *
+ * @return {Number} Millis to wait before the next attempt
+ *
+ * @api private
+ */
+
+export function backoff(policy: RetryOptions, attempt: number): number {
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.delay * Math.pow(policy.factor, attempt - 1)
+  );
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Records the request body while it streams to the first upstream request so
+ * that it can be sent again to a later attempt. Recording stops (and the body
+ * is no longer replayable) once it grows beyond `limit` bytes.
+ *
+ * @api private
+ */
+
+export class ReplayableBody {
+  source: Readable;
+  limit: number;
+  chunks: Buffer[] = [];
+  size = 0;
+  ended = false;
+  overflowed = false;
+
+  constructor(source: Readable, limit: number) {
+    this.source = source;
+    this.limit = limit;
+    source.on("data", (chunk) => {
+      if (this.overflowed) return;
+      this.size += chunk.length;
+      if (this.size > this.limit) {
+        this.overflowed = true;
+        this.chunks = [];
+      } else {
+        this.chunks.push(chunk);
+      }
+    });
+    source.on("end", () => {
+      this.ended = true;
+    });
+  }
+
+  get replayable() {
+    return !this.overflowed;
+  }
+
+  /**
+   * Writes what was recorded so far to `dest`, then keeps piping the rest of
+   * the source into it.
+   *
+   * @api private
+   */
+
+  pipe(dest: Writable) {
+    this.chunks.forEach((chunk) => dest.write(chunk));
+    if (this.ended) {
+      dest.end();
+    } else {
+      this.source.pipe(dest);
+    }
+  }
+
+  /**
+   * Stops piping to `dest`, pausing the source until the next `pipe` so that
+   * nothing is read while no attempt is running.
+   *
+   * @api private
+   */
+
+  unpipe(dest: Writable) {
+    this.source.unpipe(dest);
+    this.source.pause();
+  }
+}
@@ -0,0 +1,180 @@
+import type { IncomingMessage } from "http";
+import { TargetUrl, Upstream } from "./balancer";
+
+export type RouteTarget = TargetUrl | Array<TargetUrl | Upstream>;
+
+export type RouteRule = {
+  host?: string;
+  path?: string;
+  method?: string | string[];
+  headers?: Record<string, string | RegExp>;
+  target: RouteTarget;
+};
+
+export type RouterFunction = (
+  req: IncomingMessage
+) => RouteTarget | null | undefined | Promise<RouteTarget | null | undefined>;
+
+export type RouterTable = Record<string, RouteTarget>;
+
+export type RouterOptions =
+  | RouterTable
+  | Array<RouteRule | RouterFunction>
+  | RouterFunction;
+
+type CompiledRule = {
+  host?: string;
+  path: string;
+  methods?: string[];
+  headers: Array<[string, string | RegExp]>;
+  specificity: number;
+  target: RouteTarget;
+};
+
+type CompiledRouter = {
+  rules: CompiledRule[];
+  fallbacks: RouterFunction[];
+};
+
+const compiled = new WeakMap<object, CompiledRouter>();
+
+/**
+ * Turns a `router` table key into a rule: `host`, `host/path` or `/path`.
+ *
+ * @api private
+ */
+
+function parseKey(key: string, target: RouteTarget): RouteRule {
+  const slash = key.indexOf("/");
+  if (slash === -1) return { host: key, target };
+  return {
+    host: slash > 0 ? key.slice(0, slash) : undefined,
+    path: key.slice(slash),
+    target,
+  };
+}
+
+/**
+ * Normalizes the `router` option once, sorting rules so that the first
+ * match is the one with the longest path prefix, then the most conditions.
+ *
+ * @api private
+ */
+
+function compile(router: RouterOptions): CompiledRouter {
+  let cached = compiled.get(router);
+  if (cached) return cached;
+
+  const entries: Array<RouteRule | RouterFunction> =
+    typeof router === "function"
+      ? [router]
+      : Array.isArray(router)
+      ? router
+      : Object.keys(router).map((key) => parseKey(key, router[key]));
+
+  const rules: CompiledRule[] = [];
+  const fallbacks: RouterFunction[] = [];
+  entries.forEach((entry) => {
+    if (typeof entry === "function") return fallbacks.push(entry);
+
+    const headers = Object.keys(entry.headers || {}).map(
+      (name): [string, string | RegExp] => [
+        name.toLowerCase(),
+        entry.headers[name],
+      ]
+    );
+    const methods =
+      entry.method &&
+      [].concat(entry.method).map((method) => method.toUpperCase());
+    rules.push({
+      host: entry.host && entry.host.toLowerCase(),
+      path: (entry.path || "").replace(/\/+$/, ""),
+      methods,
+      headers,
+      specificity: (entry.host ? 1 : 0) + (methods ? 1 : 0) + headers.length,
+      target: entry.target,
+    });
+  });
+  // Array#sort is stable, so equally specific rules keep their order
+  rules.sort(
+    (a, b) => b.path.length - a.path.length || b.specificity - a.specificity
+  );
+
+  cached = { rules, fallbacks };
+  compiled.set(router, cached);
+  return cached;
+}
+
+/**
+ * Checks a single rule against the request.
+ *
+ * @api private
+ */
+
+function matches(rule: CompiledRule, req: IncomingMessage, path: string) {
+  if (rule.host) {
+    const host = (req.headers.host || "").toLowerCase();
+    // a rule without port matches any port
+    if (host !== rule.host && host.replace(/:\d+$/, "") !== rule.host) {
+      return false;
+    }
+  }
+  if (rule.path) {
+    const rest = path.slice(rule.path.length);
+    if (!path.startsWith(rule.path) || (rest && !/^[/?]/.test(rest))) {
+      return false;
+    }
+  }
+  if (rule.methods && rule.methods.indexOf(req.method) === -1) return false;
+
+  return rule.headers.every(([name, expected]) => {
+    const value = req.headers[name];
+    if (value === undefined) return false;
+    const values = [].concat(value);
+    return typeof expected === "string"
+      ? values.indexOf(expected) !== -1
+      : values.some((v) => expected.test(v));
+  });
+}
+
+/**
+ * Picks the target for `req` from the `router` option: the matching rule
+ * with the longest path prefix, otherwise whatever the first fallback
+ * function returns.
+ *
+ * Examples:
+ *
+ *    router.route({ "api.example.com/v2": "http://svc-v2:8080" }, req)
+ *    // => "http://svc-v2:8080"
+ *
+ * @param {Object|Array|Function} Router The `router` option
+ * @param {ClientRequest} Req Request object
+ *
+ * @return {String|Object|Array|Promise} Target, or `undefined` to keep `options.target`
+ *
+ * @api private
+ */
+
+export function route(
+  router: RouterOptions,
+  req: IncomingMessage
+): RouteTarget | undefined | Promise<RouteTarget | undefined> {
+  const { rules, fallbacks } = compile(router);
+  const path = req.url || "/";
+
+  for (const rule of rules) {
+    if (matches(rule, req, path)) return rule.target;
+  }
+
+  let index = 0;
+  const next = (target) => {
+    if (target) return target;
+    if (index >= fallbacks.length) return undefined;
+    const result = fallbacks[index++](req);
+    if (result && typeof (result as Promise<any>).then === "function") {
+      return (result as Promise<RouteTarget>).then(next);
+    }
+    return next(result);
+  };
+  return next(undefined);
+}
@@ -0,0 +1,161 @@
+import type { ServerResponse } from "http";
+import type { Http2Session } from "http2";
+import type { Duplex } from "stream";
+import type { ProxyServer } from "./index";
+import { CLOSE_CODES, closeWebSocket } from "./ws-frames";
+
+export type ShutdownOptions = {
+  timeout?: number;
+};
+
+export type ShutdownProgress = {
+  web: number;
+  ws: number;
+};
+
+export type ShutdownResult = {
+  drained: number;
+  destroyed: number;
+};
+
+/**
+ * The web requests and websockets a proxy is busy with, so `shutdown` can
+ * wait for them. Websockets are tracked by the client socket; the upstream
+ * socket is added once the upgrade happened (`open` event).
+ *
+ * @api private
+ */
+
+export class ActiveTraffic {
+  server: ProxyServer;
+  web: Set<ServerResponse> = new Set();
+  ws: Map<Duplex, Duplex | undefined> = new Map();
+  sessions: Set<Http2Session> = new Set();
+  draining = false;
+  forced = false;
+  drained = 0;
+  onIdle: () => void;
+
+  constructor(server: ProxyServer) {
+    this.server = server;
+    server.on("open", this.onOpen, this);
+  }
+
+  trackWeb(res: ServerResponse) {
+    if (!res || typeof res.once !== "function" || this.web.has(res)) return;
+    this.web.add(res);
+    res.once("close", () => this.done(this.web.delete(res)));
+  }
+
+  trackWs(socket: Duplex) {
+    if (!socket || typeof socket.once !== "function" || this.ws.has(socket)) {
+      return;
+    }
+    this.ws.set(socket, undefined);
+    socket.once("close", () => this.done(this.ws.delete(socket)));
+  }
+
+  trackSession(session: Http2Session) {
+    this.sessions.add(session);
+    session.once("close", () => this.sessions.delete(session));
+    if (this.draining) session.close();
+  }
+
+  onOpen(upstreamSocket: Duplex, _req, socket: Duplex) {
+    if (!this.ws.has(socket)) return;
+    this.ws.set(socket, upstreamSocket);
+    if (this.draining)
+      closeWebSocket(socket, upstreamSocket, CLOSE_CODES.goingAway);
+  }
+
+  remaining(): ShutdownProgress {
+    return { web: this.web.size, ws: this.ws.size };
+  }
+
+  /**
+   * Answers a request that came in while shutting down.
+   *
+   * @param {ServerResponse|Socket} Res Response object, or the socket of a
+   * websocket
+   *
+   * @api private
+   */
+
+  refuse(res: ServerResponse | Duplex) {
+    if (!("writeHead" in res)) {
+      res.end("HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    res.writeHead(503, {
+      "content-type": "text/plain",
+      // Remark: HTTP/2 has no connection header, its sessions are closed
+      // with a GOAWAY instead
+      ...(!("stream" in res) && { connection: "close" }),
+    });
+    res.end("Service Unavailable");
+  }
+
+  done(removed: boolean) {
+    if (!removed || !this.draining || this.forced) return;
+    this.drained++;
+    this.server.emit("drain", this.remaining());
+    // connections whose response just finished are idle now
+    // @ts-ignore - not there for HTTP/2 servers
+    this.server._server?.closeIdleConnections?.();
+    if (!this.web.size && !this.ws.size) this.onIdle?.();
+  }
+
+  /**
+   * Lets the web requests finish and closes websockets, destroying what is
+   * left after `timeout` millis.
+   *
+   * @param {Number} Timeout Millis to wait before destroying connections
+   *
+   * @return {Promise} Resolves with the number of drained and destroyed
+   * requests
+   *
+   * @api private
+   */
+
+  drain(timeout: number): Promise<ShutdownResult> {
+    this.draining = true;
+    this.server.emit("shutdown", this.remaining());
+
+    this.web.forEach((res) => {
+      if (!res.headersSent && !("stream" in res)) {
+        res.setHeader("connection", "close");
+      }
+    });
+    this.ws.forEach((upstreamSocket, socket) => {
+      if (upstreamSocket)
+        closeWebSocket(socket, upstreamSocket, CLOSE_CODES.goingAway);
+    });
+    this.sessions.forEach((session) => session.close());
+    // @ts-ignore - not there for HTTP/2 servers
+    this.server._server?.closeIdleConnections?.();
+
+    return new Promise((resolve) => {
+      const finish = (destroyed: number) => {
+        clearTimeout(timer);
+        this.onIdle = null;
+        resolve({ drained: this.drained, destroyed });
+      };
+      const timer = setTimeout(() => {
+        const left = this.remaining();
+        this.server.emit("forceClose", left);
+        this.forced = true;
+        this.web.forEach((res) => res.destroy());
+        this.ws.forEach((upstreamSocket, socket) => {
+          socket.destroy();
+          if (upstreamSocket) upstreamSocket.destroy();
+        });
+        this.sessions.forEach((session) => session.destroy());
+        // @ts-ignore - not there for HTTP/2 servers
+        this.server._server?.closeAllConnections?.();
+        finish(left.web + left.ws);
+      }, timeout);
+      this.onIdle = () => finish(0);
+      if (!this.web.size && !this.ws.size) finish(0);
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import type { IncomingMessage } from "http";
+import { randomBytes } from "crypto";
+import { upstreamKey } from "./common";
+
+export type SpanType = "web" | "forward" | "ws";
+
+export type SpanAttributes = {
+  target?: string;
+  method: string;
+  url: string;
+  status?: number;
+  errorCode?: string;
+  retryCount: number;
+};
+
+export type TracingOptions = {
+  onSpanStart?: (span: ProxySpan) => void;
+  onSpanEnd?: (span: ProxySpan) => void;
+};
+
+/**
+ * The trace an incoming request belongs to, from its `traceparent` and
+ * `tracestate` headers. `parentId` is missing for traces started by the
+ * proxy.
+ */
+export type TraceContext = {
+  traceId: string;
+  parentId?: string;
+  flags: string;
+  state?: string;
+};
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const ZEROS = /^0+$/;
+
+// Remark: forward and target requests of the same incoming request share
+// its trace, which is read (or created) once.
+const contexts: WeakMap<IncomingMessage, TraceContext> = new WeakMap();
+const active: WeakMap<
+  IncomingMessage,
+  Partial<Record<"target" | "forward", ProxySpan>>
+> = new WeakMap();
+
+/**
+ * Parses a W3C `traceparent` header.
+ *
+ * @param {String} Header Value of the header
+ *
+ * @return {Object|null} The trace context, or null if the header is invalid
+ *
+ * @api private
+ */
+
+export function parseTraceparent(header: unknown): TraceContext | null {
+  if (typeof header !== "string") return null;
+  const match = TRACEPARENT.exec(header.trim());
+  if (!match) return null;
+  const [, version, traceId, parentId, flags, rest] = match;
+  // version 00 has no further fields, later versions may add some
+  if (version === "ff" || (version === "00" && rest)) return null;
+  if (ZEROS.test(traceId) || ZEROS.test(parentId)) return null;
+  return { traceId, parentId, flags };
+}
+
+/**
+ * Reads the trace context of a request, or starts a new (sampled) trace if
+ * it has no valid `traceparent`.
+ *
+ * @param {IncomingMessage} Req Request object
+ *
+ * @return {Object} The trace context
+ *
+ * @api private
+ */
+
+export function traceContext(req: IncomingMessage): TraceContext {
+  let context = contexts.get(req);
+  if (context) return context;
+  context = parseTraceparent(req.headers.traceparent);
+  if (context) {
+    // tracestate is only meaningful along with a valid traceparent
+    const state = req.headers.tracestate;
+    if (state) context.state = Array.isArray(state) ? state.join(",") : state;
+  } else {
+    context = { traceId: randomBytes(16).toString("hex"), flags: "01" };
+  }
+  contexts.set(req, context);
+  return context;
+}
+
+/**
+ * The proxy's client span of a request to the target, to `forward` or of
+ * a websocket upgrade. Its `spanId` becomes the parent id of the
+ * `traceparent` sent upstream; `onSpanStart` may replace it with the id of
+ * a span of its own.
+ *
+ * @api private
+ */
+
+export class ProxySpan {
+  type: SpanType;
+  traceId: string;
+  spanId: string = randomBytes(8).toString("hex");
+  parentId: string | undefined;
+  flags: string;
+  state: string | undefined;
+  startTime: number = Date.now();
+  endTime: number | undefined;
+  attributes: SpanAttributes;
+  req: IncomingMessage;
+  options: TracingOptions;
+
+  constructor(
+    type: SpanType,
+    req: IncomingMessage,
+    target,
+    options: TracingOptions
+  ) {
+    const context = traceContext(req);
+    this.type = type;
+    this.traceId = context.traceId;
+    this.parentId = context.parentId;
+    this.flags = context.flags;
+    this.state = context.state;
+    this.req = req;
+    this.options = options;
+    this.attributes = {
+      target: target ? upstreamKey(target) : undefined,
+      method: req.method,
+      url: req.url,
+      retryCount: 0,
+    };
+  }
+
+  /**
+   * Headers carrying the span to the upstream.
+   *
+   * @return {Object} `traceparent` and, if any, `tracestate`
+   *
+   * @api private
+   */
+
+  headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      traceparent: ["00", this.traceId, this.spanId, this.flags].join("-"),
+    };
+    if (this.state) headers.tracestate = this.state;
+    return headers;
+  }
+
+  /**
+   * Ends the span, unless it was ended already.
+   *
+   * @param {Number} Status Status code of the upstream response, if any
+   * @param {Error} Err Error the request failed with, if any
+   *
+   * @api private
+   */
+
+  end(status?: number, err?: NodeJS.ErrnoException) {
+    if (this.endTime !== undefined) return;
+    this.endTime = Date.now();
+    if (status !== undefined) this.attributes.status = status;
+    if (err) this.attributes.errorCode = String(err.code || err.message);
+    this.options.onSpanEnd?.(this);
+  }
+}
+
+/**
+ * Starts a span if `tracing` is specified in config.
+ *
+ * @param {String} Type `web`, `forward` or `ws`
+ * @param {IncomingMessage} Req Request object
+ * @param {Object} Options Config object passed to the proxy
+ *
+ * @return {ProxySpan|undefined} The span
+ *
+ * @api private
+ */
+
+export function startSpan(
+  type: SpanType,
+  req: IncomingMessage,
+  options: { tracing?: boolean | TracingOptions; target?; forward? }
+): ProxySpan | undefined {
+  if (!options.tracing) return undefined;
+  const key = type === "forward" ? "forward" : "target";
+  const span = new ProxySpan(
+    type,
+    req,
+    options[key],
+    options.tracing === true ? {} : options.tracing
+  );
+  active.set(req, { ...active.get(req), [key]: span });
+  span.options.onSpanStart?.(span);
+  return span;
+}
+
+/**
+ * The span of the request to `target` (or `forward`) started last for
+ * the incoming request.
+ *
+ * @api private
+ */
+
+export function activeSpan(
+  req: IncomingMessage,
+  forward?: string
+): ProxySpan | undefined {
+  return active.get(req)?.[forward ? "forward" : "target"];
+}
@@ -0,0 +1,614 @@
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { randomBytes } from "crypto";
+import zlib from "zlib";
+
+export type WsDirection = "upstream" | "downstream";
+
+/**
+ * A message as sent by one end: `upstream` messages go from the client to
+ * the target, `downstream` ones back. Fragmented messages are reassembled
+ * and compressed ones inflated.
+ */
+export type WsMessage = {
+  direction: WsDirection;
+  opcode: number;
+  payload: Buffer;
+};
+
+export type WsMessageContext = {
+  req: IncomingMessage;
+  send: (direction: WsDirection, data: Buffer | string) => void;
+};
+
+/**
+ * Called for every text and binary message. It returns (or resolves with)
+ * a new payload, `null` to drop the message, or nothing to let it through.
+ */
+export type WsMessageHook = (
+  message: WsMessage,
+  context: WsMessageContext
+) => Buffer | string | null | void | Promise<Buffer | string | null | void>;
+
+export type WsMessageOptions = {
+  intercept?: WsMessageHook;
+  maxMessageSize?: number;
+};
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+// RFC 6455 section 7.4.1
+export const CLOSE_CODES = {
+  goingAway: 1001,
+  protocolError: 1002,
+  messageTooBig: 1009,
+  internalError: 1011,
+};
+
+const DEFAULT_MAX_MESSAGE_SIZE = 100 * 1024 * 1024;
+
+// payload of the proxy's own pings, telling their pongs apart
+const PROXY_PING = Buffer.from("http-proxy");
+
+// RFC 7692 section 7.2.1, the end of a flushed deflate block
+const DEFLATE_TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+type Frame = {
+  fin: boolean;
+  rsv1: boolean;
+  opcode: number;
+  payload: Buffer;
+};
+
+type Deflate = { noContextTakeover: boolean; maxWindowBits: number };
+
+/**
+ * Encodes a single, unfragmented frame. Frames sent to the upstream are
+ * masked, like every frame of a client has to be.
+ *
+ * @param {Number} Opcode Frame opcode
+ * @param {Buffer} Payload Frame payload
+ * @param {Boolean} Masked Whether to mask the payload
+ * @param {Boolean} Compressed Whether to set RSV1, for a deflated payload
+ *
+ * @return {Buffer} The frame
+ *
+ * @api private
+ */
+
+export function encodeFrame(
+  opcode: number,
+  payload: Buffer,
+  masked: boolean,
+  compressed = false
+): Buffer {
+  const length = payload.length;
+  const extra = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+  const header = Buffer.alloc(2 + extra + (masked ? 4 : 0));
+  header[0] = 0x80 | (compressed ? 0x40 : 0) | opcode;
+  header[1] =
+    (masked ? 0x80 : 0) | (extra === 0 ? length : extra === 2 ? 126 : 127);
+  if (extra === 2) header.writeUInt16BE(length, 2);
+  if (extra === 8) {
+    header.writeUInt32BE(Math.floor(length / 0x100000000), 2);
+    header.writeUInt32BE(length >>> 0, 6);
+  }
+  if (!masked) return Buffer.concat([header, payload]);
+
+  const mask = randomBytes(4);
+  mask.copy(header, 2 + extra);
+  const body = Buffer.allocUnsafe(length);
+  for (let i = 0; i < length; i++) body[i] = payload[i] ^ mask[i & 3];
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * A close frame with a status code.
+ *
+ * @api private
+ */
+
+export function closeFrame(code: number, masked: boolean): Buffer {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  return encodeFrame(OPCODES.close, payload, masked);
+}
+
+/**
+ * Reads the permessage-deflate parameters the target accepted in its
+ * `sec-websocket-extensions` response header, per sending end.
+ *
+ * @param {String} Header Value of the header
+ *
+ * @return {Object|null} Parameters of the `upstream` and `downstream`
+ * senders, or null if the extension is not in use
+ *
+ * @api private
+ */
+
+export function parseDeflate(
+  header: string | undefined
+): Record<WsDirection, Deflate> | null {
+  if (!header) return null;
+  const extension = header
+    .split(",")
+    .map((part) => part.split(";").map((param) => param.trim()))
+    .find(([name]) => name.toLowerCase() === "permessage-deflate");
+  if (!extension) return null;
+
+  const params: Record<string, string | true> = {};
+  extension.slice(1).forEach((param) => {
+    const [name, value] = param.split("=");
+    params[name.toLowerCase()] = value ? value.replace(/"/g, "") : true;
+  });
+  const bits = (value) => (typeof value === "string" ? Number(value) : 15);
+  return {
+    upstream: {
+      noContextTakeover: !!params.client_no_context_takeover,
+      maxWindowBits: bits(params.client_max_window_bits),
+    },
+    downstream: {
+      noContextTakeover: !!params.server_no_context_takeover,
+      maxWindowBits: bits(params.server_max_window_bits),
+    },
+  };
+}
+
+class WsProtocolError extends Error {
+  code: string;
+  closeCode: number;
+
+  constructor(message: string, code: string, closeCode: number) {
+    super(message);
+    this.code = code;
+    this.closeCode = closeCode;
+  }
+}
+
+/**
+ * One direction of a websocket: parses the frames read from `source`,
+ * reassembles and inflates messages, and writes them to `destination`
+ * again. Messages are handled one after the other, hooks included.
+ *
+ * @api private
+ */
+
+class MessageStream {
+  direction: WsDirection;
+  source: Duplex;
+  destination: Duplex;
+  deflate: Deflate | undefined;
+  inflater: zlib.InflateRaw | undefined;
+  maxMessageSize: number;
+  buffered: Buffer = Buffer.alloc(0);
+  fragments: Buffer[] = [];
+  fragmentsSize = 0;
+  messageOpcode = 0;
+  compressed = false;
+  queue: Promise<void> = Promise.resolve();
+  closed = false;
+
+  constructor(
+    direction: WsDirection,
+    source: Duplex,
+    destination: Duplex,
+    deflate: Deflate | undefined,
+    maxMessageSize: number
+  ) {
+    this.direction = direction;
+    this.source = source;
+    this.destination = destination;
+    this.deflate = deflate;
+    this.maxMessageSize = maxMessageSize;
+  }
+
+  /**
+   * Takes the frames out of the bytes read so far.
+   *
+   * @return {Array} Complete frames
+   *
+   * @api private
+   */
+
+  parse(chunk: Buffer): Frame[] {
+    const frames: Frame[] = [];
+    this.buffered = this.buffered.length
+      ? Buffer.concat([this.buffered, chunk])
+      : chunk;
+
+    for (;;) {
+      const buf = this.buffered;
+      if (buf.length < 2) break;
+      const opcode = buf[0] & 0x0f;
+      const masked = (buf[1] & 0x80) !== 0;
+      let length = buf[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buf.length < 4) break;
+        length = buf.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buf.length < 10) break;
+        length = buf.readUInt32BE(2) * 0x100000000 + buf.readUInt32BE(6);
+        offset = 10;
+      }
+      if (opcode >= 0x8 && (length > 125 || !(buf[0] & 0x80))) {
+        throw new WsProtocolError(
+          "Invalid control frame",
+          "EWSPROTOCOL",
+          CLOSE_CODES.protocolError
+        );
+      }
+      if (this.fragmentsSize + length > this.maxMessageSize) {
+        throw new WsProtocolError(
+          "WebSocket message too large",
+          "EWSMESSAGETOOLARGE",
+          CLOSE_CODES.messageTooBig
+        );
+      }
+      if (masked !== (this.direction === "upstream")) {
+        throw new WsProtocolError(
+          this.direction === "upstream"
+            ? "Unmasked frame from the client"
+            : "Masked frame from the target",
+          "EWSPROTOCOL",
+          CLOSE_CODES.protocolError
+        );
+      }
+
+      const start = offset + (masked ? 4 : 0);
+      if (buf.length < start + length) break;
+      const payload = Buffer.from(buf.subarray(start, start + length));
+      if (masked) {
+        for (let i = 0; i < length; i++) payload[i] ^= buf[offset + (i & 3)];
+      }
+      frames.push({
+        fin: (buf[0] & 0x80) !== 0,
+        rsv1: (buf[0] & 0x40) !== 0,
+        opcode,
+        payload,
+      });
+      this.buffered = buf.subarray(start + length);
+    }
+    return frames;
+  }
+
+  /**
+   * Reassembles the data frames of a message.
+   *
+   * @return {Object|null} The message, once its last frame was read
+   *
+   * @api private
+   */
+
+  assemble(
+    frame: Frame
+  ): { opcode: number; payload: Buffer; compressed: boolean } | null {
+    if (frame.opcode >= 0x8) {
+      return {
+        opcode: frame.opcode,
+        payload: frame.payload,
+        compressed: false,
+      };
+    }
+    const continuation = frame.opcode === OPCODES.continuation;
+    if (continuation !== this.fragments.length > 0) {
+      throw new WsProtocolError(
+        continuation
+          ? "Unexpected continuation frame"
+          : "Expected continuation frame",
+        "EWSPROTOCOL",
+        CLOSE_CODES.protocolError
+      );
+    }
+    if (!continuation) {
+      this.messageOpcode = frame.opcode;
+      this.compressed = frame.rsv1;
+      if (frame.rsv1 && !this.deflate) {
+        throw new WsProtocolError(
+          "Compressed frame without permessage-deflate",
+          "EWSPROTOCOL",
+          CLOSE_CODES.protocolError
+        );
+      }
+    }
+    this.fragments.push(frame.payload);
+    this.fragmentsSize += frame.payload.length;
+    if (!frame.fin) return null;
+
+    const payload = Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentsSize = 0;
+    return { opcode: this.messageOpcode, payload, compressed: this.compressed };
+  }
+
+  /**
+   * Inflates a compressed message, keeping the sliding window between
+   * messages unless the sender does not.
+   *
+   * @api private
+   */
+
+  inflate(payload: Buffer): Promise<Buffer> {
+    if (!this.inflater || this.deflate.noContextTakeover) {
+      this.inflater?.close();
+      this.inflater = zlib.createInflateRaw();
+    }
+    const inflater = this.inflater;
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size > this.maxMessageSize) {
+          inflater.removeListener("data", onData);
+          reject(
+            new WsProtocolError(
+              "WebSocket message too large",
+              "EWSMESSAGETOOLARGE",
+              CLOSE_CODES.messageTooBig
+            )
+          );
+        }
+      };
+      const onError = (err) => {
+        inflater.removeListener("data", onData);
+        reject(err);
+      };
+      inflater.on("data", onData);
+      inflater.once("error", onError);
+      inflater.write(Buffer.concat([payload, DEFLATE_TRAILER]));
+      inflater.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+        inflater.removeListener("data", onData);
+        inflater.removeListener("error", onError);
+        resolve(Buffer.concat(chunks, size));
+      });
+    });
+  }
+
+  /**
+   * Writes a message to the destination, deflated if `compressed`.
+   *
+   * @api private
+   */
+
+  write(opcode: number, payload: Buffer, compressed: boolean) {
+    if (this.destination.writableEnded || this.destination.destroyed) return;
+    if (compressed) {
+      // Remark: a fresh context per message is valid whatever the receiver
+      // keeps of the window, so outgoing messages don't depend on each other
+      payload = zlib.deflateRawSync(payload, {
+        finishFlush: zlib.constants.Z_SYNC_FLUSH,
+        windowBits: Math.max(this.deflate.maxWindowBits, 9),
+      });
+      payload = payload.subarray(0, payload.length - DEFLATE_TRAILER.length);
+    }
+    const flushed = this.destination.write(
+      encodeFrame(opcode, payload, this.direction === "upstream", compressed)
+    );
+    if (!flushed) {
+      this.source.pause();
+      this.destination.once("drain", () => this.source.resume());
+    }
+  }
+
+  enqueue(task: () => void | Promise<void>): Promise<void> {
+    this.queue = this.queue.then(() => (this.closed ? undefined : task()));
+    return this.queue;
+  }
+}
+
+/**
+ * Relays the messages of a websocket between the client and the target,
+ * instead of piping the bytes, so they can be inspected and changed:
+ * `wsMessage` is emitted on the proxy for every message and control frame,
+ * and the `intercept` hook may drop or rewrite text and binary messages or
+ * send messages of its own.
+ *
+ * @api private
+ */
+
+export class MessageRelay {
+  streams: Record<WsDirection, MessageStream>;
+  req: IncomingMessage;
+  server;
+  options: WsMessageOptions;
+  onError: (err: Error) => void;
+  onPong: (direction: WsDirection) => void;
+
+  constructor(
+    req: IncomingMessage,
+    socket: Duplex,
+    upstreamSocket: Duplex,
+    extensions: string | undefined,
+    options: WsMessageOptions,
+    server,
+    onError: (err: Error) => void
+  ) {
+    const deflate = parseDeflate(extensions);
+    const maxMessageSize = options.maxMessageSize || DEFAULT_MAX_MESSAGE_SIZE;
+    this.req = req;
+    this.server = server;
+    this.options = options;
+    this.onError = onError;
+    this.streams = {
+      upstream: new MessageStream(
+        "upstream",
+        socket,
+        upstreamSocket,
+        deflate?.upstream,
+        maxMessageSize
+      ),
+      downstream: new MessageStream(
+        "downstream",
+        upstreamSocket,
+        socket,
+        deflate?.downstream,
+        maxMessageSize
+      ),
+    };
+
+    Object.values(this.streams).forEach((stream) => {
+      stream.source.on("data", (chunk: Buffer) => this.read(stream, chunk));
+      stream.source.on("end", () =>
+        stream.enqueue(() => {
+          stream.destination.end();
+        })
+      );
+    });
+  }
+
+  read(stream: MessageStream, chunk: Buffer) {
+    if (stream.closed) return;
+    let frames: Frame[];
+    try {
+      frames = stream.parse(chunk);
+    } catch (err) {
+      return this.fail(stream, err);
+    }
+    frames.forEach((frame) => {
+      stream
+        .enqueue(() => this.relay(stream, frame))
+        .catch((err) => this.fail(stream, err));
+    });
+  }
+
+  async relay(stream: MessageStream, frame: Frame) {
+    const assembled = stream.assemble(frame);
+    if (!assembled) return;
+    const payload = assembled.compressed
+      ? await stream.inflate(assembled.payload)
+      : assembled.payload;
+    if (
+      assembled.opcode === OPCODES.pong &&
+      this.onPong &&
+      payload.equals(PROXY_PING)
+    ) {
+      return this.onPong(stream.direction);
+    }
+    const message: WsMessage = {
+      direction: stream.direction,
+      opcode: assembled.opcode,
+      payload,
+    };
+    this.server.emit("wsMessage", message, this.req);
+
+    let result: Buffer | string | null | void = undefined;
+    if (message.opcode < 0x8 && this.options.intercept) {
+      result = await this.options.intercept(message, {
+        req: this.req,
+        send: (direction, data) => this.send(direction, data),
+      });
+    }
+    if (result === null) return;
+    stream.write(
+      message.opcode,
+      result === undefined ? payload : Buffer.from(result as Buffer | string),
+      assembled.compressed
+    );
+  }
+
+  /**
+   * Sends a message of the proxy's own, a text message for strings and a
+   * binary one for buffers, after the messages already on their way.
+   *
+   * @param {String} Direction `upstream` or `downstream`
+   * @param {Buffer|String} Data The payload
+   *
+   * @api private
+   */
+
+  send(direction: WsDirection, data: Buffer | string) {
+    const stream = this.streams[direction];
+    const opcode = typeof data === "string" ? OPCODES.text : OPCODES.binary;
+    stream
+      .enqueue(() => stream.write(opcode, Buffer.from(data), false))
+      .catch((err) => this.fail(stream, err));
+  }
+
+  /**
+   * Closes both ends after a protocol violation (or a failing hook), with
+   * a close frame telling why.
+   *
+   * @api private
+   */
+
+  fail(stream: MessageStream, err) {
+    if (stream.closed) return;
+    this.close(err.closeCode || CLOSE_CODES.internalError);
+    this.onError(err);
+  }
+
+  /**
+   * Sends a close frame to both ends, dropping the messages still on
+   * their way.
+   *
+   * @param {Number} Code Close status code
+   *
+   * @api private
+   */
+
+  close(code: number) {
+    Object.values(this.streams).forEach((stream) => {
+      stream.closed = true;
+      stream.inflater?.close();
+      if (!stream.destination.writableEnded) {
+        stream.destination.end(
+          closeFrame(code, stream.direction === "upstream")
+        );
+      }
+    });
+  }
+
+  /**
+   * Pings both ends. Their pongs are reported to `onPong` rather than
+   * relayed.
+   *
+   * @api private
+   */
+
+  ping() {
+    Object.values(this.streams).forEach((stream) => {
+      stream
+        .enqueue(() => stream.write(OPCODES.ping, PROXY_PING, false))
+        .catch((err) => this.fail(stream, err));
+    });
+  }
+}
+
+/**
+ * Closes a websocket with a close frame to both ends, which then close the
+ * connection themselves. Without a relay, the sockets are unpiped first.
+ *
+ * @param {Socket} Socket Client socket
+ * @param {Socket} UpstreamSocket Target socket
+ * @param {Number} Code Close status code
+ * @param {MessageRelay} Relay Relay of the websocket, if any
+ *
+ * @api private
+ */
+
+export function closeWebSocket(
+  socket: Duplex,
+  upstreamSocket: Duplex,
+  code: number,
+  relay?: MessageRelay
+) {
+  if (relay) return relay.close(code);
+  upstreamSocket.unpipe(socket);
+  socket.unpipe(upstreamSocket);
+  // the replies to the close frames are not of interest
+  socket.resume();
+  upstreamSocket.resume();
+  socket.end(closeFrame(code, false));
+  upstreamSocket.end(closeFrame(code, true));
+}
@@ -0,0 +1,190 @@
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import url from "url";
+import type { ProxyServer } from "./index";
+import { upstreamKey } from "./common";
+import { closeWebSocket, MessageRelay } from "./ws-frames";
+
+export type WsLimits = {
+  perTarget?: number;
+  perClient?: number;
+};
+
+export type WsConnectionInfo = {
+  id: number;
+  clientAddress: string;
+  target: string;
+  path: string;
+  startTime: number;
+  open: boolean;
+  bytesIn: number;
+  bytesOut: number;
+};
+
+/**
+ * Selects connections: every given field has to match, `target` being
+ * compared by protocol, host and port. A function gets each connection.
+ */
+export type WsConnectionFilter =
+  | {
+      target?: string | url.UrlWithStringQuery;
+      clientAddress?: string;
+      path?: string;
+    }
+  | ((connection: WsConnectionInfo) => boolean);
+
+/**
+ * A proxied websocket, from the upgrade request on. `open` once the
+ * target switched protocols.
+ *
+ * @api private
+ */
+
+export class WsConnection {
+  id: number;
+  clientAddress: string;
+  target: string;
+  path: string;
+  startTime: number = Date.now();
+  bytesIn = 0;
+  bytesOut = 0;
+  socket: Duplex;
+  upstreamSocket: Duplex | undefined;
+  relay: MessageRelay | undefined;
+
+  constructor(
+    id: number,
+    req: IncomingMessage,
+    socket: Duplex,
+    target,
+    clientAddress: string
+  ) {
+    this.id = id;
+    this.clientAddress = clientAddress;
+    this.target = upstreamKey(target);
+    this.path = req.url;
+    this.socket = socket;
+  }
+
+  opened(upstreamSocket: Duplex, relay: MessageRelay | undefined) {
+    this.upstreamSocket = upstreamSocket;
+    this.relay = relay;
+    this.socket.on("data", (chunk) => (this.bytesIn += chunk.length));
+    upstreamSocket.on("data", (chunk) => (this.bytesOut += chunk.length));
+  }
+
+  info(): WsConnectionInfo {
+    return {
+      id: this.id,
+      clientAddress: this.clientAddress,
+      target: this.target,
+      path: this.path,
+      startTime: this.startTime,
+      open: !!this.upstreamSocket,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+    };
+  }
+
+  /**
+   * Closes the websocket with a close frame to both ends, or drops the
+   * client if the upgrade did not happen yet.
+   *
+   * @param {Number} Code Close status code
+   *
+   * @api private
+   */
+
+  close(code: number) {
+    if (!this.upstreamSocket) return this.socket.destroy();
+    closeWebSocket(this.socket, this.upstreamSocket, code, this.relay);
+  }
+}
+
+/**
+ * The live websockets of a proxy, by client socket. Connections are added
+ * by the `stream` pass and removed once the client socket closes. Clients
+ * are told apart by `ProxyServer#clientAddress`, which believes the
+ * forwarding headers of the `trustedProxies`.
+ *
+ * @api private
+ */
+
+export class WsRegistry {
+  server: ProxyServer;
+  connections: Map<Duplex, WsConnection> = new Map();
+  lastId = 0;
+
+  constructor(server: ProxyServer) {
+    this.server = server;
+  }
+
+  add(req: IncomingMessage, socket: Duplex, target): WsConnection {
+    const connection = new WsConnection(
+      ++this.lastId,
+      req,
+      socket,
+      target,
+      this.server.clientAddress(req)
+    );
+    this.connections.set(socket, connection);
+    socket.once("close", () => this.connections.delete(socket));
+    return connection;
+  }
+
+  get(socket: Duplex): WsConnection | undefined {
+    return this.connections.get(socket);
+  }
+
+  /**
+   * Whether another websocket would exceed one of the limits.
+   *
+   * @param {Object} Limits `{ perTarget, perClient }`
+   * @param {IncomingMessage} Req Upgrade request
+   * @param {Object} Target Target of the request
+   *
+   * @return {String|null} `perTarget` or `perClient` if exceeded
+   *
+   * @api private
+   */
+
+  exceeds(
+    limits: WsLimits,
+    req: IncomingMessage,
+    target
+  ): "perTarget" | "perClient" | null {
+    const key = upstreamKey(target);
+    const clientAddress = this.server.clientAddress(req);
+    let perTarget = 0;
+    let perClient = 0;
+    this.connections.forEach((connection) => {
+      if (connection.target === key) perTarget++;
+      if (connection.clientAddress === clientAddress) perClient++;
+    });
+    if (limits.perTarget && perTarget >= limits.perTarget) return "perTarget";
+    if (limits.perClient && perClient >= limits.perClient) return "perClient";
+    return null;
+  }
+
+  select(filter?: WsConnectionFilter): WsConnection[] {
+    const all = Array.from(this.connections.values());
+    if (!filter) return all;
+    if (typeof filter === "function") {
+      return all.filter((connection) => filter(connection.info()));
+    }
+    const target =
+      filter.target &&
+      upstreamKey(
+        typeof filter.target === "string"
+          ? url.parse(filter.target)
+          : filter.target
+      );
+    return all.filter(
+      (connection) =>
+        (!target || connection.target === target) &&
+        (filter.clientAddress === undefined ||
+          connection.clientAddress === filter.clientAddress) &&
+        (filter.path === undefined || connection.path === filter.path)
+    );
+  }
+}
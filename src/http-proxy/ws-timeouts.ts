@@ -0,0 +1,104 @@
+import type { Duplex } from "stream";
+import type { MessageRelay, WsDirection } from "./ws-frames";
+
+export type WsTimeoutOptions = {
+  pingInterval?: number;
+  pongTimeout?: number;
+  idleTimeout?: number;
+  maxLifetime?: number;
+};
+
+/**
+ * Why a proxied websocket closed: `end` when the target ended the
+ * connection, otherwise the timeout that made the proxy close it.
+ */
+export type WsCloseReason =
+  | "end"
+  | "pongTimeout"
+  | "idleTimeout"
+  | "maxLifetime";
+
+/**
+ * Keepalive pings and timeouts of a proxied websocket.
+ *
+ *  - `pingInterval`: pings both ends this often; an end that did not answer
+ *    with a pong within `pongTimeout` (default: `pingInterval`) is taken to
+ *    be gone. Needs the frames to be relayed by `relay`.
+ *  - `idleTimeout`: no data in either direction for that long
+ *  - `maxLifetime`: the connection is open for that long
+ *
+ * All durations are in millis. `onTimeout` is called once, with the reason,
+ * when one of them hits.
+ *
+ * @api private
+ */
+
+export class WsTimeouts {
+  timers: NodeJS.Timeout[] = [];
+  pongTimer: NodeJS.Timeout;
+  awaitingPong: Set<WsDirection> = new Set();
+  onTimeout: (reason: WsCloseReason) => void;
+  stopped = false;
+
+  constructor(
+    socket: Duplex,
+    upstreamSocket: Duplex,
+    relay: MessageRelay | undefined,
+    options: WsTimeoutOptions,
+    onTimeout: (reason: WsCloseReason) => void
+  ) {
+    this.onTimeout = onTimeout;
+
+    if (options.idleTimeout) {
+      const idle = this.start(
+        setTimeout(() => this.timeout("idleTimeout"), options.idleTimeout)
+      );
+      const active = () => idle.refresh();
+      socket.on("data", active);
+      upstreamSocket.on("data", active);
+    }
+
+    if (options.maxLifetime) {
+      this.start(
+        setTimeout(() => this.timeout("maxLifetime"), options.maxLifetime)
+      );
+    }
+
+    if (options.pingInterval && relay) {
+      const pongTimeout = options.pongTimeout || options.pingInterval;
+      // pongs of the client come in with its upstream messages and the other
+      // way round
+      relay.onPong = (direction) => this.awaitingPong.delete(direction);
+      this.start(
+        setInterval(() => {
+          if (this.awaitingPong.size) return;
+          this.awaitingPong.add("upstream").add("downstream");
+          relay.ping();
+          clearTimeout(this.pongTimer);
+          this.pongTimer = setTimeout(() => {
+            if (this.awaitingPong.size) this.timeout("pongTimeout");
+          }, pongTimeout);
+        }, options.pingInterval)
+      );
+    }
+
+    socket.once("close", () => this.stop());
+  }
+
+  start(timer: NodeJS.Timeout): NodeJS.Timeout {
+    this.timers.push(timer);
+    return timer;
+  }
+
+  timeout(reason: WsCloseReason) {
+    if (this.stopped) return;
+    this.stop();
+    this.onTimeout(reason);
+  }
+
+  stop() {
+    this.stopped = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    clearTimeout(this.pongTimer);
+  }
+}
@@ -1,29 +1,201 @@
 import { ProxyServer } from "./http-proxy/index";
+import {
+  BalancerSelector,
+  BalancerStrategy,
+  TargetUrl,
+  Upstream,
+} from "./http-proxy/balancer";
+import { HealthCheckOptions } from "./http-proxy/health";
+import { RetryOptions } from "./http-proxy/retry";
+import { CircuitBreakerOptions } from "./http-proxy/circuit-breaker";
+import { PassOverrides } from "./http-proxy/pipeline";
+import { PathRewrite } from "./http-proxy/common";
+import { RouterOptions } from "./http-proxy/router";
+import { MetricsOptions } from "./http-proxy/metrics";
+import { Logger, RequestRecord } from "./http-proxy/access-log";
+import { TracingOptions } from "./http-proxy/tracing";
+import { WsMessageOptions } from "./http-proxy/ws-frames";
+import { WsTimeoutOptions } from "./http-proxy/ws-timeouts";
+import { WsLimits } from "./http-proxy/ws-registry";
+import { MirrorOptions } from "./http-proxy/mirror";
+import { CacheLookup, CacheOptions } from "./http-proxy/cache";
+import { RateLimitOptions } from "./http-proxy/rate-limit";
+import { AuthenticateOptions, Identity } from "./http-proxy/auth";
+import { CorsOptions } from "./http-proxy/cors";
+import { ForwardedFormat } from "./http-proxy/forwarded";
+import { HeaderRule, HeaderValue } from "./http-proxy/header-rules";
+import {
+  RequestInterceptor,
+  ResponseInterceptor,
+} from "./http-proxy/interceptor";
 import { UrlWithStringQuery } from "url";
 import { Agent, ServerResponse, RequestOptions } from "http";
 import stream from "stream";
 
+export type {
+  BalancerSelector,
+  BalancerStrategy,
+  PoolMember,
+  TargetUrl,
+  Upstream,
+} from "./http-proxy/balancer";
+export { ProxyError } from "./http-proxy/errors";
+export type { ProxyResult, ProxyTimings } from "./http-proxy/index";
+export type { PathRewrite } from "./http-proxy/common";
+export type {
+  RouterFunction,
+  RouterOptions,
+  RouterTable,
+  RouteRule,
+  RouteTarget,
+} from "./http-proxy/router";
+export type { HealthCheckOptions } from "./http-proxy/health";
+export type {
+  AccessLogEntry,
+  LogMethod,
+  Logger,
+  UpstreamTimings,
+} from "./http-proxy/access-log";
+export type {
+  ProxySpan,
+  SpanAttributes,
+  SpanType,
+  TraceContext,
+  TracingOptions,
+} from "./http-proxy/tracing";
+export type {
+  ShutdownOptions,
+  ShutdownProgress,
+  ShutdownResult,
+} from "./http-proxy/shutdown";
+export type {
+  WsDirection,
+  WsMessage,
+  WsMessageContext,
+  WsMessageHook,
+  WsMessageOptions,
+} from "./http-proxy/ws-frames";
+export type {
+  CounterSample,
+  HistogramSample,
+  MetricsOptions,
+  MetricsSnapshot,
+} from "./http-proxy/metrics";
+export type { RetryOptions } from "./http-proxy/retry";
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+} from "./http-proxy/circuit-breaker";
+export type {
+  ErrorHandler,
+  Next,
+  OutgoingPass,
+  PassOf,
+  PassOverride,
+  PassOverrides,
+  PassResult,
+  PassType,
+  WebPass,
+  WsPass,
+} from "./http-proxy/pipeline";
+export type {
+  BufferedTransform,
+  RequestBodyType,
+  RequestContext,
+  RequestInterceptor,
+  RequestTransform,
+  ResponseContext,
+  ResponseInterceptor,
+  StreamingTransform,
+} from "./http-proxy/interceptor";
+export type { WsCloseReason, WsTimeoutOptions } from "./http-proxy/ws-timeouts";
+export type {
+  CacheEntry,
+  CacheOptions,
+  CacheStatus,
+  CacheStore,
+} from "./http-proxy/cache";
+export type { CorsOptions, CorsOrigin } from "./http-proxy/cors";
+export type { ForwardedFormat } from "./http-proxy/forwarded";
+export type { HeaderRule, HeaderValue } from "./http-proxy/header-rules";
+export type {
+  AuthenticateOptions,
+  AuthScheme,
+  BasicAuthOptions,
+  BearerAuthOptions,
+  Identity,
+  IdentityHeader,
+  JwtAuthOptions,
+} from "./http-proxy/auth";
+export type {
+  RateLimitAlgorithm,
+  RateLimitKey,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitState,
+  RateLimitStore,
+} from "./http-proxy/rate-limit";
+export type {
+  MirrorDiff,
+  MirrorOptions,
+  MirroredResponse,
+} from "./http-proxy/mirror";
+export type {
+  WsConnectionFilter,
+  WsConnectionInfo,
+  WsLimits,
+} from "./http-proxy/ws-registry";
+
 export type proxyOptions = {
-  target?: string | UrlWithStringQuery;
+  target?: TargetUrl | Array<TargetUrl | Upstream>;
+  router?: RouterOptions;
+  balancer?: BalancerStrategy | BalancerSelector;
+  healthCheck?: HealthCheckOptions;
+  circuitBreaker?: CircuitBreakerOptions;
   requestOptions?: RequestOptions;
   forward?: string | UrlWithStringQuery;
-  headers?: any;
+  mirror?: MirrorOptions;
+  cache?: boolean | CacheOptions;
+  rateLimit?: RateLimitOptions;
+  authenticate?: AuthenticateOptions;
+  cors?: CorsOptions;
+  headers?: Record<string, HeaderValue>;
+  requestHeaders?: HeaderRule[];
+  responseHeaders?: HeaderRule[];
   proxyTimeout?: number;
+  retry?: RetryOptions;
   timeout?: number;
   httpAgent?: Agent;
   httpsAgent?: Agent;
-  buffer?: any;
+  buffer?: stream.Readable;
+  requestInterceptor?: RequestInterceptor;
   selfHandleResponse?: boolean;
+  responseInterceptor?: ResponseInterceptor;
+  metrics?: MetricsOptions;
+  http2?: boolean;
+  upstreamHttp2?: boolean;
   ssl?: {
     key: string;
     cert: string;
   };
   ws?: boolean;
   xfwd?: boolean;
+  xfwdFormat?: ForwardedFormat;
+  trustedProxies?: string[];
   secure?: boolean;
   toProxy?: boolean;
   prependPath?: boolean;
   ignorePath?: boolean;
+  pathRewrite?: PathRewrite;
+  /** Request path after `pathRewrite`, set by the `pathRewrite` pass. */
+  rewrittenPath?: string;
+  /** Cache lookup of the request, set by the `cache` pass. */
+  cacheLookup?: CacheLookup;
+  /** Identity of the request, set by the `authenticate` pass. */
+  identity?: Identity;
+  /** Access log record of the request, set when it enters the proxy. */
+  record?: RequestRecord;
   localAddress?: string;
   changeOrigin?: boolean;
   preserveHeaderKeyCase?: boolean;
@@ -33,7 +205,13 @@ export type proxyOptions = {
   protocolRewrite?: boolean;
   followRedirects?: boolean;
   handleErrors?: boolean;
-  logger?: any; // bunyan
+  passes?: PassOverrides;
+  logger?: Logger;
+  accessLog?: boolean;
+  tracing?: boolean | TracingOptions;
+  wsMessages?: boolean | WsMessageOptions;
+  wsTimeouts?: WsTimeoutOptions;
+  wsLimits?: WsLimits;
 };
 
 /**
@@ -56,16 +234,35 @@ export function createProxyServer(options: proxyOptions): ProxyServer {
    *  `options` is needed and it must have the following layout:
    *
    *  {
-   *    target : <url string to be parsed with the url module>
+   *    target : <url string to be parsed with the url module, or a list of them (optionally `{ target, weight }`) to balance across>
+   *    router: <{ 'host/path': target }, [{ host, path, method, headers, target } or function(req)] or function(req), pick the target per request>
+   *    balancer: <'round-robin' | 'weighted' | 'least-outstanding' | 'random' | function(upstreams, req), Default: 'round-robin'>
+   *    healthCheck: <{ path, interval, timeout, expectedStatus, unhealthyThreshold, healthyThreshold, cooldown }, skip unhealthy upstreams of a target list>
+   *    circuitBreaker: <{ window, failureThreshold, failureRate, minRequests, resetTimeout, halfOpenRequests, failureStatusCodes }, fail fast with 503 while a target keeps failing>
    *    forward: <url string to be parsed with the url module>
+   *    mirror: <{ target, percentage, maxBodySize, timeout, compare }, shadow a sample of web requests to another target without affecting them>
+   *    cache  : <true or { store, maxEntries, maxBodySize }, serve GET requests from a shared HTTP cache (RFC 9111)>
+   *    rateLimit: <{ limit, window, algorithm, key, routes, store, trustedProxies, headers }, answer requests beyond a limit with a 429>
+   *    authenticate: <{ basic, bearer, jwt, realm, headers }, reject requests without valid credentials with a 401>
+   *    cors   : <{ origin, methods, allowedHeaders, exposedHeaders, credentials, maxAge }, answer preflights and set the CORS headers of responses>
+   *    retry  : <{ attempts, delay, maxDelay, factor, jitter, methods, codes, maxBufferSize }, retry web requests that fail before a response>
    *    agent  : <object to be passed to http(s).request>
    *    ssl    : <object to be passed to https.createServer()>
+   *    metrics: <{ buckets }, latency histogram buckets in seconds, Default: Prometheus' default buckets>
+   *    http2  : <true/false, Default: false - accept HTTP/2 in listen(), with ALPN fallback to HTTP/1.1 when ssl is set>
+   *    upstreamHttp2: <true/false, Default: false - talk HTTP/2 to the target over one reusable session per target>
    *    ws     : <true/false, if you want to proxy websockets>
+   *    wsMessages: <true or { intercept(message, { req, send }), maxMessageSize }, relay websocket messages frame by frame, emitting `wsMessage`>
+   *    wsTimeouts: <{ pingInterval, pongTimeout, idleTimeout, maxLifetime }, millis after which the proxy closes a websocket, reported by the `close` event>
+   *    wsLimits: <{ perTarget, perClient }, most websockets open at once per target and per client address, more are refused with a 503>
    *    xfwd   : <true/false, adds x-forward headers>
+   *    xfwdFormat: <'x-forwarded' | 'forwarded' | 'both', Default: 'x-forwarded' - headers set by `xfwd`, RFC 7239 `Forwarded` and/or `x-forwarded-*`>
+   *    trustedProxies: <addresses or CIDR ranges of the proxies in front of this one, whose forwarding headers are kept>
    *    secure : <true/false, verify SSL certificate>
    *    toProxy: <true/false, explicitly specify if we are proxying to another proxy>
    *    prependPath: <true/false, Default: true - specify whether you want to prepend the target's path to the proxy path>
    *    ignorePath: <true/false, Default: false - specify whether you want to ignore the proxy path of the incoming request>
+   *    pathRewrite: <{ regex: replacement }, prefix to strip or function(path, req), rewrite the request path before joining it with the target path>
    *    localAddress : <Local interface string to bind for outgoing connections>
    *    changeOrigin: <true/false, Default: false - changes the origin of the host header to the target URL>
    *    preserveHeaderKeyCase: <true/false, Default: false - specify whether you want to keep letter case of response header key >
@@ -73,6 +270,15 @@ export function createProxyServer(options: proxyOptions): ProxyServer {
    *    hostRewrite: rewrites the location hostname on (201/301/302/307/308) redirects, Default: null.
    *    autoRewrite: rewrites the location host/port on (201/301/302/307/308) redirects based on requested host/port. Default: false.
    *    protocolRewrite: rewrites the location protocol on (201/301/302/307/308) redirects to 'http' or 'https'. Default: null.
+   *    headers: <{ name: value or function(req) }, headers set on requests to the target>
+   *    requestHeaders: <[{ set, append, remove, rename, path, method }], rules changing the headers of requests to the target>
+   *    responseHeaders: <[{ set, append, remove, rename, path, method, status }], rules changing the headers of responses of the target>
+   *    requestInterceptor: <function(body, { req, res, type, headers }) or { transform, maxBodySize, filter }, rewrite (parsed) request bodies and headers>
+   *    responseInterceptor: <function(body, { req, res, upstreamRes }) or { mode: 'buffer' | 'stream', transform, maxBodySize, filter }, rewrite (decoded) response bodies>
+   *    passes: <{ web, ws, outgoing }, per-request replacement list of passes or function(passes) returning one>
+   *    logger : <object with error(obj, msg) and info(obj, msg), e.g. bunyan or pino - errors with handleErrors, and the access log>
+   *    accessLog: <true/false, Default: true - log an entry with method, urls, target, status, bytes and timings per request to logger.info>
+   *    tracing: <true or { onSpanStart(span), onSpanEnd(span) }, propagate W3C trace context upstream in a span of the proxy>
    *  }
    *
    *  NOTE: `options.ws` and `options.ssl` are optional.
@@ -0,0 +1,220 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5024, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function collect() {
+  var logger = { entries: [], error: function () {} };
+  logger.info = function (entry, msg) {
+    expect(msg).to.be('access');
+    logger.entries.push(entry);
+  };
+  return logger;
+}
+
+describe('lib/http-proxy.js access log', function () {
+  it('should log web requests with their sizes and timings', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var logger = collect();
+    var source = http.createServer(function (req, res) {
+      req.resume();
+      req.on('end', function () {
+        res.writeHead(201);
+        res.end('created');
+      });
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      pathRewrite: { '^/api': '' },
+      logger: logger
+    }).listen(ports.proxy);
+    var endTimings;
+    proxy.on('end', function (req, res, upstreamRes, timings) {
+      endTimings = timings;
+    });
+
+    var req = http.request({ port: ports.proxy, path: '/api/users', method: 'POST' }, function (res) {
+      res.resume();
+      res.on('end', function () {
+        setImmediate(function () {
+          var entry = logger.entries[0];
+          expect(logger.entries).to.have.length(1);
+          expect(entry).to.eql({
+            type: 'web',
+            method: 'POST',
+            url: '/api/users',
+            rewrittenUrl: '/users',
+            target: 'http://127.0.0.1:' + ports.source,
+            status: 201,
+            bytesIn: 7,
+            bytesOut: 7,
+            timings: entry.timings,
+            error: undefined
+          });
+          expect(entry.timings.connect).to.be.a('number');
+          expect(entry.timings.tls).to.be(undefined);
+          expect(entry.timings.firstByte).to.be.a('number');
+          expect(entry.timings.total).to.not.be.lessThan(entry.timings.firstByte);
+          expect(endTimings.firstByte).to.be(entry.timings.firstByte);
+          expect(endTimings.total).to.be.a('number');
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+    req.end('payload');
+  });
+
+  it('should log the error of failed requests', function (done) {
+    var logger = collect();
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + gen.port,
+      logger: logger
+    });
+    var proxyServer = http.createServer(function (req, res) {
+      proxy.web({ req: req, res: res });
+    }).listen(gen.port);
+    proxy.on('error', function (err, req, res) {
+      res.destroy();
+    });
+
+    http.get('http://127.0.0.1:' + proxyServer.address().port).on('error', function () {
+      setImmediate(function () {
+        expect(logger.entries).to.have.length(1);
+        expect(logger.entries[0].error).to.be('ECONNREFUSED');
+        expect(logger.entries[0].status).to.be(undefined);
+        expect(logger.entries[0].timings.firstByte).to.be(undefined);
+        proxyServer.close();
+        done();
+      });
+    });
+  });
+
+  it('should log websockets once they close', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var logger = collect();
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        logger: logger
+      }).listen(ports.proxy);
+      var client = new ws('ws://127.0.0.1:' + ports.proxy + '/chat');
+
+      destiny.on('connection', function (socket) {
+        socket.on('message', function (msg) { socket.send(msg); });
+      });
+      client.on('open', function () { client.send('hello'); });
+      client.on('message', function () { client.close(); });
+      client.on('close', function () {
+        setImmediate(function () {
+          var entry = logger.entries[0];
+          expect(entry.type).to.be('ws');
+          expect(entry.url).to.be('/chat');
+          expect(entry.status).to.be(101);
+          expect(entry.bytesIn).to.be.greaterThan(5);
+          expect(entry.bytesOut).to.be.greaterThan(5);
+          expect(entry.timings.total).to.be.a('number');
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should log web requests answered by the proxy', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var logger = collect();
+    var source = http.createServer(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60' });
+      res.end('ok');
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      cache: true,
+      rateLimit: { limit: 2, window: 60000 },
+      logger: logger
+    }).listen(ports.proxy);
+
+    function get(cb) {
+      http.get('http://127.0.0.1:' + ports.proxy + '/items', function (res) {
+        res.resume();
+        res.on('end', function () { setImmediate(cb); });
+      });
+    }
+    get(function () {
+      get(function () {
+        get(function () {
+          expect(logger.entries.map(function (entry) { return entry.status; })).to.eql([200, 200, 429]);
+          logger.entries.forEach(function (entry) {
+            expect(entry.url).to.be('/items');
+            expect(entry.target).to.be('http://127.0.0.1:' + ports.source);
+            expect(entry.timings.total).to.be.a('number');
+          });
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should log websockets refused by the proxy', function (done) {
+    var port = gen.port;
+    var logger = { error: function () {} };
+    var proxy = httpProxy.createProxyServer({
+      target: 'ws://127.0.0.1:' + gen.port,
+      ws: true,
+      authenticate: { basic: { users: { alice: 'secret' } } },
+      logger: logger
+    }).listen(port);
+    logger.info = function (entry) {
+      expect(entry.type).to.be('ws');
+      expect(entry.url).to.be('/chat');
+      expect(entry.status).to.be(401);
+      proxy.close();
+      done();
+    };
+    var client = new ws('ws://127.0.0.1:' + port + '/chat');
+    client.on('error', function () {});
+    client.on('unexpected-response', function (req) {
+      req.destroy();
+    });
+  });
+
+  it('should not log with accessLog set to false', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var logger = collect();
+    var source = http.createServer(function (req, res) { res.end(); }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      logger: logger,
+      accessLog: false
+    }).listen(ports.proxy);
+
+    http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+      res.resume();
+      res.on('end', function () {
+        setImmediate(function () {
+          expect(logger.entries).to.have.length(0);
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+});
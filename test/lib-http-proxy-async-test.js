@@ -0,0 +1,165 @@
+var httpProxy = require('../module'),
+    ProxyError = require('../module').ProxyError,
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4424, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+describe('lib/http-proxy.js promise API', function () {
+  describe('#webAsync', function () {
+    it('should resolve with the status, target and timings', function (done) {
+      var ports = { source: gen.port, proxy: gen.port }, result;
+      var source = http.createServer(function (req, res) {
+        res.writeHead(201);
+        res.end('created');
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source
+      });
+      var proxyServer = http.createServer(function (req, res) {
+        proxy.webAsync({ req: req, res: res }).then(function (r) {
+          result = r;
+        }, done);
+      }).listen(ports.proxy);
+
+      http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+        res.resume();
+        res.on('end', function () {
+          setImmediate(function () {
+            expect(result.statusCode).to.be(201);
+            expect(result.target.port).to.be(String(ports.source));
+            expect(result.timings.start).to.be.a('number');
+            expect(result.timings.headers).to.be.a('number');
+            expect(result.timings.total).to.not.be.below(result.timings.headers);
+            expect(proxy.pending.size).to.be(0);
+            source.close();
+            proxyServer.close();
+            done();
+          });
+        });
+      });
+    });
+
+    it('should reject with a ProxyError instead of emitting', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source
+      });
+      proxy.on('error', function () {
+        expect().fail('error should not be emitted');
+      });
+      var proxyServer = http.createServer(function (req, res) {
+        proxy.webAsync({ req: req, res: res }).catch(function (err) {
+          expect(err).to.be.a(ProxyError);
+          expect(err.code).to.be('ECONNREFUSED');
+          expect(err.req).to.be(req);
+          expect(err.target.port).to.be(String(ports.source));
+          res.writeHead(502);
+          res.end();
+        });
+      }).listen(ports.proxy);
+
+      http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+        expect(res.statusCode).to.be(502);
+        proxyServer.close();
+        done();
+      });
+    });
+
+    it('should reject when no target is configured', function (done) {
+      var proxy = httpProxy.createProxyServer({});
+      var res = new http.ServerResponse({ method: 'GET', headers: {} });
+      proxy.webAsync({ req: { headers: {} }, res: res }).catch(function (err) {
+        expect(err).to.be.a(ProxyError);
+        expect(err.message).to.match(/Must provide a proper URL/);
+        done();
+      });
+    });
+
+    it('should destroy both sides when the signal aborts', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var controller = new AbortController();
+      var source = http.createServer(function (req, res) {
+        req.on('close', function () {
+          source.close();
+          proxyServer.close();
+          done();
+        });
+        controller.abort();
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source
+      });
+      var proxyServer = http.createServer(function (req, res) {
+        proxy.webAsync({ req: req, res: res, signal: controller.signal }).catch(function (err) {
+          expect(err.code).to.be('ABORT_ERR');
+        });
+      }).listen(ports.proxy);
+
+      http.get('http://127.0.0.1:' + ports.proxy).on('error', function (err) {
+        expect(err.code).to.be('ECONNRESET');
+      });
+    });
+  });
+
+  describe('#wsAsync', function () {
+    it('should resolve once the upstream switched protocols', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var destiny = new ws.Server({ port: ports.source });
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source
+      });
+      var proxyServer = http.createServer().listen(ports.proxy), result;
+      proxyServer.on('upgrade', function (req, socket, head) {
+        proxy.wsAsync({ req: req, socket: socket, head: head }).then(function (r) {
+          result = r;
+        }, done);
+      });
+
+      var client = new ws('ws://127.0.0.1:' + ports.proxy);
+      client.on('open', function () {
+        expect(result.statusCode).to.be(101);
+        expect(result.target.port).to.be(String(ports.source));
+        client.close();
+      });
+      client.on('close', function () {
+        proxyServer.close();
+        destiny.close();
+        done();
+      });
+    });
+
+    it('should close the upstream socket when the signal aborts', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var controller = new AbortController();
+      var destiny = new ws.Server({ port: ports.source });
+      destiny.on('connection', function (socket) {
+        socket.on('close', function () {
+          proxyServer.close();
+          destiny.close();
+          done();
+        });
+        controller.abort();
+      });
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source
+      });
+      var proxyServer = http.createServer().listen(ports.proxy);
+      proxyServer.on('upgrade', function (req, socket, head) {
+        proxy.wsAsync({ req: req, socket: socket, head: head, signal: controller.signal });
+      });
+
+      new ws('ws://127.0.0.1:' + ports.proxy).on('error', function () {});
+    });
+  });
+});
@@ -0,0 +1,230 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    crypto = require('crypto'),
+    fs = require('fs'),
+    http = require('http'),
+    os = require('os'),
+    path = require('path'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5924, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target echoing the request headers it got as JSON, and a
+// proxy to it with the given `authenticate`.
+//
+function setup(authenticate, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var source = http.createServer(function (req, res) {
+    res.end(JSON.stringify(req.headers));
+  });
+  source.listen(ports.source, function () {
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      authenticate: authenticate
+    }).listen(ports.proxy);
+    cb(proxy, ports.proxy, function () {
+      proxy.close();
+      source.close();
+    });
+  });
+}
+
+function get(port, headers, cb) {
+  http.get({ hostname: '127.0.0.1', port: port, headers: headers }, function (res) {
+    var body = '';
+    res.on('data', function (chunk) { body += chunk; });
+    res.on('end', function () { cb(res, body); });
+  });
+}
+
+function basic(user, password) {
+  return 'Basic ' + Buffer.from(user + ':' + password).toString('base64');
+}
+
+function encode(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function jwt(header, claims, sign) {
+  var signed = encode(header) + '.' + encode(claims);
+  return signed + '.' + sign(signed).toString('base64url');
+}
+
+function hs256(claims, secret) {
+  return jwt({ alg: 'HS256', typ: 'JWT' }, claims, function (signed) {
+    return crypto.createHmac('sha256', secret).update(signed).digest();
+  });
+}
+
+describe('lib/http-proxy.js authenticate', function () {
+  it('should reject requests without credentials with a 401', function (done) {
+    setup({ basic: { users: { alice: 'secret' } }, realm: 'api' }, function (proxy, port, close) {
+      var error;
+      proxy.on('authError', function (err) { error = err; });
+      get(port, {}, function (res, body) {
+        expect(res.statusCode).to.be(401);
+        expect(res.headers['www-authenticate']).to.be('Basic realm="api"');
+        expect(body).to.be('Unauthorized');
+        expect(error.code).to.be('EAUTHREQUIRED');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should check Basic credentials and forward the identity', function (done) {
+    setup({ basic: { users: { alice: 'secret' } } }, function (proxy, port, close) {
+      get(port, { authorization: basic('alice', 'wrong') }, function (res) {
+        expect(res.statusCode).to.be(401);
+        get(port, { authorization: basic('alice', 'secret'), 'x-auth-user': 'admin' }, function (res, body) {
+          expect(res.statusCode).to.be(200);
+          expect(JSON.parse(body)['x-auth-user']).to.be('alice');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should strip spoofed identity headers', function (done) {
+    setup({
+      basic: {
+        validate: function (user, password) {
+          return password === 'letmein' && { sub: user };
+        }
+      },
+      headers: { 'x-user': 'subject', 'x-team': 'claims.team' }
+    }, function (proxy, port, close) {
+      get(port, {
+        authorization: basic('bob', 'letmein'),
+        'x-user': 'admin',
+        'x-team': 'root'
+      }, function (res, body) {
+        var headers = JSON.parse(body);
+        expect(headers['x-user']).to.be('bob');
+        expect(headers).to.not.have.property('x-team');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should check Bearer tokens with the validator', function (done) {
+    setup({
+      bearer: {
+        validate: function (token) {
+          return Promise.resolve(token === 'abc' && { sub: 'service', scope: ['read', 'write'] });
+        }
+      },
+      headers: { 'x-user': 'subject', 'x-scope': function (identity) { return identity.claims.scope.join(' '); } }
+    }, function (proxy, port, close) {
+      get(port, { authorization: 'Bearer nope' }, function (res) {
+        expect(res.statusCode).to.be(401);
+        expect(res.headers['www-authenticate']).to.be('Bearer realm="proxy", error="invalid_token"');
+        get(port, { authorization: 'Bearer abc' }, function (res, body) {
+          var headers = JSON.parse(body);
+          expect(headers['x-user']).to.be('service');
+          expect(headers['x-scope']).to.be('read write');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should verify HS256 JWTs and their claims', function (done) {
+    var now = Math.floor(Date.now() / 1000);
+    setup({
+      jwt: { secret: 'shh', issuer: 'https://issuer', audience: 'api', claims: { role: ['admin', 'editor'] } },
+      headers: { 'x-user': 'subject', 'x-role': 'claims.role' }
+    }, function (proxy, port, close) {
+      var valid = { sub: 'carol', iss: 'https://issuer', aud: ['api'], role: 'editor', exp: now + 60 };
+      get(port, { authorization: 'Bearer ' + hs256(valid, 'shh') }, function (res, body) {
+        expect(res.statusCode).to.be(200);
+        expect(JSON.parse(body)['x-user']).to.be('carol');
+        expect(JSON.parse(body)['x-role']).to.be('editor');
+        get(port, { authorization: 'Bearer ' + hs256(valid, 'other') }, function (res) {
+          expect(res.statusCode).to.be(401);
+          var expired = Object.assign({}, valid, { exp: now - 60 });
+          get(port, { authorization: 'Bearer ' + hs256(expired, 'shh') }, function (res) {
+            expect(res.statusCode).to.be(401);
+            var viewer = Object.assign({}, valid, { role: 'viewer' });
+            get(port, { authorization: 'Bearer ' + hs256(viewer, 'shh') }, function (res) {
+              expect(res.statusCode).to.be(403);
+              expect(res.headers).to.not.have.property('www-authenticate');
+              close();
+              done();
+            });
+          });
+        });
+      });
+    });
+  });
+
+  it('should verify RS256 JWTs with the keys of a JWKS file', function (done) {
+    var pair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    var jwk = pair.publicKey.export({ format: 'jwk' });
+    var jwksFile = path.join(os.tmpdir(), 'http-proxy-jwks-' + process.pid + '.json');
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [Object.assign({ kid: 'k1', use: 'sig' }, jwk)] }));
+    function rs256(kid) {
+      return jwt({ alg: 'RS256', kid: kid }, { sub: 'dave' }, function (signed) {
+        return crypto.sign('RSA-SHA256', Buffer.from(signed), pair.privateKey);
+      });
+    }
+
+    setup({ jwt: { jwksFile: jwksFile } }, function (proxy, port, close) {
+      fs.unlinkSync(jwksFile);
+      get(port, { authorization: 'Bearer ' + rs256('k1') }, function (res, body) {
+        expect(res.statusCode).to.be(200);
+        expect(JSON.parse(body)['x-auth-user']).to.be('dave');
+        get(port, { authorization: 'Bearer ' + rs256('k2') }, function (res) {
+          expect(res.statusCode).to.be(401);
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should reject unauthenticated websocket upgrades before contacting the target', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        authenticate: { basic: { users: { alice: 'secret' } } }
+      }).listen(ports.proxy);
+      destiny.on('connection', function () { throw new Error('target contacted'); });
+      var client = new ws('ws://127.0.0.1:' + ports.proxy);
+      client.on('error', function () {});
+      client.on('unexpected-response', function (req, res) {
+        expect(res.statusCode).to.be(401);
+        expect(res.headers['www-authenticate']).to.be('Basic realm="proxy"');
+        req.destroy();
+        var authorized = new ws('ws://127.0.0.1:' + ports.proxy, {
+          headers: { authorization: basic('alice', 'secret') }
+        });
+        destiny.removeAllListeners('connection');
+        destiny.on('connection', function (socket, req) {
+          expect(req.headers['x-auth-user']).to.be('alice');
+        });
+        authorized.on('open', function () {
+          authorized.close();
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+var TargetPool = require('../module/http-proxy/balancer').TargetPool,
+    httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4024, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function ports(pool, strategy, n) {
+  var picked = [];
+  for (var i = 0; i < n; i++) {
+    picked.push(pool.pick({}, strategy).target.port);
+  }
+  return picked;
+}
+
+describe('module/http-proxy/balancer.js', function () {
+  describe('TargetPool', function () {
+    it('should parse urls, url objects and weighted upstreams', function () {
+      var pool = new TargetPool([
+        'http://127.0.0.1:8001',
+        { target: 'http://127.0.0.1:8002', weight: 2 },
+        { host: 'localhost', port: 8003 }
+      ]);
+
+      expect(pool.members.length).to.be(3);
+      expect(pool.members[0].key).to.be('http://127.0.0.1:8001');
+      expect(pool.members[1].weight).to.be(2);
+      expect(pool.members[2].key).to.be('http://localhost:8003');
+    });
+
+    it('should rotate with round-robin', function () {
+      var pool = new TargetPool(['http://a:1', 'http://b:2', 'http://c:3']);
+      expect(ports(pool, 'round-robin', 4)).to.eql(['1', '2', '3', '1']);
+    });
+
+    it('should interleave members by weight', function () {
+      var pool = new TargetPool([
+        { target: 'http://a:1', weight: 5 },
+        { target: 'http://b:2', weight: 1 },
+        { target: 'http://c:3', weight: 1 }
+      ]);
+      expect(ports(pool, 'weighted', 7)).to.eql(['1', '1', '2', '1', '3', '1', '1']);
+    });
+
+    it('should skip members with a weight of 0', function () {
+      var pool = new TargetPool([
+        { target: 'http://a:1', weight: 0 },
+        'http://b:2'
+      ]);
+      expect(ports(pool, 'round-robin', 2)).to.eql(['2', '2']);
+    });
+
+    it('should prefer the member with fewer outstanding requests', function () {
+      var pool = new TargetPool(['http://a:1', 'http://b:2']);
+      pool.acquire(pool.members[0]);
+      pool.acquire(pool.members[0]);
+      pool.acquire(pool.members[1]);
+
+      expect(pool.pick({}, 'least-outstanding').target.port).to.be('2');
+      pool.release(pool.members[0]);
+      pool.release(pool.members[0]);
+      expect(pool.pick({}, 'least-outstanding').target.port).to.be('1');
+    });
+
+    it('should pick a member at random', function () {
+      var pool = new TargetPool(['http://a:1', 'http://b:2']);
+      expect(['1', '2']).to.contain(pool.pick({}, 'random').target.port);
+    });
+
+    it('should use a custom selector', function () {
+      var pool = new TargetPool(['http://a:1', 'http://b:2']);
+      var picked = pool.pick({ headers: { 'x-shard': '1' } }, function (upstreams, req) {
+        return upstreams[Number(req.headers['x-shard'])];
+      });
+      expect(picked.target.port).to.be('2');
+    });
+
+    it('should honor the filter and return nothing when no member is eligible', function () {
+      var pool = new TargetPool(['http://a:1', 'http://b:2']);
+      var picked = pool.pick({}, 'round-robin', function (member) {
+        return member.target.port === '2';
+      });
+      expect(picked.target.port).to.be('2');
+      expect(pool.pick({}, 'round-robin', function () { return false; })).to.be(undefined);
+    });
+
+    it('should throw on an unknown strategy', function () {
+      var pool = new TargetPool(['http://a:1']);
+      expect(function () { pool.pick({}, 'nope'); }).to.throwError(/Unknown balancer strategy/);
+    });
+  });
+
+  describe('#createProxyServer with a target pool', function () {
+    it('should balance requests and report the chosen target', function (done) {
+      var sourcePorts = [gen.port, gen.port], proxyPort = gen.port;
+      var sources = sourcePorts.map(function (port) {
+        return http.createServer(function (req, res) {
+          res.end(String(port));
+        }).listen(port);
+      });
+      var proxy = httpProxy.createProxyServer({
+        target: sourcePorts.map(function (port) { return 'http://127.0.0.1:' + port; })
+      }).listen(proxyPort);
+
+      var started = [], responded = [], bodies = [];
+      proxy.on('start', function (req, res, target) {
+        started.push(target.port);
+      });
+      proxy.on('upstreamRes', function (upstreamRes, req, res, target) {
+        responded.push(target.port);
+      });
+
+      function request(cb) {
+        http.get('http://127.0.0.1:' + proxyPort, function (res) {
+          var body = '';
+          res.on('data', function (chunk) { body += chunk; });
+          res.on('end', function () { bodies.push(body); cb(); });
+        });
+      }
+
+      request(function () {
+        request(function () {
+          expect(bodies).to.eql(sourcePorts.map(String));
+          expect(started).to.eql(bodies);
+          expect(responded).to.eql(bodies);
+          sources.forEach(function (source) { source.close(); });
+          proxy.close();
+          done();
+        });
+      });
+    });
+
+    it('should share pools between equal lists and keep only the recent ones', function () {
+      var proxy = httpProxy.createProxyServer({});
+      var pool = proxy.getPool(['http://a:1', { target: 'http://b:2', weight: 2 }]);
+      expect(proxy.getPool(['http://a:1', { target: 'http://b:2', weight: 2 }])).to.be(pool);
+      expect(proxy.getPool(['http://a:1', 'http://b:2'])).to.not.be(pool);
+
+      for (var i = 0; i < 100; i++) proxy.getPool(['http://c:' + (i + 1)]);
+      expect(proxy.pools.size).to.be(100);
+      expect(proxy.getPool(['http://a:1', { target: 'http://b:2', weight: 2 }])).to.not.be(pool);
+    });
+
+    it('should emit an error when the pool is empty', function (done) {
+      var proxy = httpProxy.createProxyServer({ target: [] });
+      proxy.on('error', function (err) {
+        expect(err.message).to.match(/No upstream available/);
+        done();
+      });
+      proxy.web({ req: { headers: {} }, res: {} });
+    });
+  });
+});
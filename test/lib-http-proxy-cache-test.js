@@ -0,0 +1,387 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5724, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target answering with `handler` and a caching proxy to it.
+// `requests` lists what the target received.
+//
+function setup(handler, cache, cb) {
+  setupWith(handler, { cache: cache || true }, cb);
+}
+
+//
+// Same as `setup`, the proxy taking the given `options`.
+//
+function setupWith(handler, options, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var requests = [];
+  var source = http.createServer(function (req, res) {
+    requests.push(req);
+    handler(req, res, requests.length);
+  });
+  source.listen(ports.source, function () {
+    var proxy = httpProxy.createProxyServer(Object.assign({
+      target: 'http://127.0.0.1:' + ports.source
+    }, options)).listen(ports.proxy);
+    cb(proxy, ports.proxy, requests, function () {
+      proxy.close();
+      source.close();
+    });
+  });
+}
+
+function request(port, method, headers, cb) {
+  http.request({
+    hostname: '127.0.0.1',
+    port: port,
+    method: method,
+    path: '/items?page=1',
+    headers: headers
+  }, function (res) {
+    var body = '';
+    res.on('data', function (chunk) { body += chunk; });
+    res.on('end', function () { cb(res, body); });
+  }).end();
+}
+
+function get(port, headers, cb) {
+  request(port, 'GET', headers, cb);
+}
+
+describe('lib/http-proxy.js cache', function () {
+  it('should serve fresh responses from the cache', function (done) {
+    setup(function (req, res, count) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', 'content-type': 'text/plain' });
+      res.end('items ' + count);
+    }, null, function (proxy, port, requests, close) {
+      var events = [];
+      proxy.on('cache', function (status, req, res, key) {
+        events.push(status);
+        expect(key).to.contain('/items?page=1');
+      });
+      get(port, {}, function (res, body) {
+        expect(res.headers['x-cache']).to.be('MISS');
+        expect(body).to.be('items 1');
+        get(port, {}, function (res, body) {
+          expect(res.statusCode).to.be(200);
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(res.headers['content-type']).to.be('text/plain');
+          expect(res.headers['content-length']).to.be('7');
+          expect(res.headers.age).to.be('0');
+          expect(body).to.be('items 1');
+          expect(requests).to.have.length(1);
+          expect(events).to.eql(['MISS', 'HIT']);
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should honour Expires', function (done) {
+    setup(function (req, res, count) {
+      res.writeHead(200, {
+        date: new Date().toUTCString(),
+        expires: new Date(Date.now() + 60000).toUTCString()
+      });
+      res.end('items ' + count);
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(body).to.be('items 1');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should not store no-store and private responses', function (done) {
+    setup(function (req, res, count) {
+      res.writeHead(200, { 'cache-control': count === 1 ? 'no-store' : 'private, max-age=60' });
+      res.end('items ' + count);
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('MISS');
+          expect(body).to.be('items 2');
+          get(port, {}, function (res, body) {
+            expect(res.headers['x-cache']).to.be('MISS');
+            expect(body).to.be('items 3');
+            close();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should not store responses setting cookies', function (done) {
+    setup(function (req, res, count) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', 'set-cookie': 'session=' + count });
+      res.end('items ' + count);
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('MISS');
+          expect(res.headers['set-cookie']).to.eql(['session=2']);
+          expect(body).to.be('items 2');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should only store the headers of the target', function (done) {
+    var entries = {};
+    var store = {
+      get: function (key) { return entries[key]; },
+      set: function (key, entry) { entries[key] = entry; },
+      delete: function (key) { delete entries[key]; }
+    };
+    setupWith(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', 'x-upstream': 'yes' });
+      res.end('items');
+    }, {
+      cache: { store: store },
+      responseHeaders: [{ set: { 'x-client': function (req) { return req.headers['x-client']; } } }]
+    }, function (proxy, port, requests, close) {
+      proxy.before('web', 'cache', function (req, res) {
+        res.setHeader('x-pass', req.headers['x-client']);
+      });
+      get(port, { 'x-client': 'a' }, function () {
+        var entry = entries[Object.keys(entries)[0]];
+        expect(entry.headers['x-upstream']).to.be('yes');
+        expect(entry.headers).to.not.have.property('x-client');
+        expect(entry.headers).to.not.have.property('x-pass');
+        get(port, { 'x-client': 'b' }, function (res) {
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(res.headers['x-upstream']).to.be('yes');
+          expect(res.headers['x-client']).to.be('b');
+          expect(res.headers['x-pass']).to.be('b');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should set the RateLimit headers of each request on stored responses', function (done) {
+    setupWith(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', 'ratelimit-remaining': '7' });
+      res.end('items');
+    }, {
+      cache: true,
+      rateLimit: { limit: 100, window: 60000 }
+    }, function (proxy, port, requests, close) {
+      get(port, {}, function (res) {
+        get(port, {}, function (res) {
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(res.headers['ratelimit-remaining']).to.be('98');
+          get(port, {}, function (res) {
+            expect(res.headers['x-cache']).to.be('HIT');
+            expect(res.headers['ratelimit-remaining']).to.be('97');
+            expect(res.headers['ratelimit-limit']).to.be('100');
+            close();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should keep variants apart by the Vary headers', function (done) {
+    setup(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', vary: 'Accept-Language' });
+      res.end(req.headers['accept-language']);
+    }, null, function (proxy, port, requests, close) {
+      get(port, { 'accept-language': 'en' }, function () {
+        get(port, { 'accept-language': 'fr' }, function (res, body) {
+          expect(res.headers['x-cache']).to.be('MISS');
+          expect(body).to.be('fr');
+          get(port, { 'accept-language': 'fr' }, function (res, body) {
+            expect(res.headers['x-cache']).to.be('HIT');
+            expect(body).to.be('fr');
+            expect(requests).to.have.length(2);
+            close();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should revalidate stale responses with a conditional request', function (done) {
+    setup(function (req, res) {
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.writeHead(304, { etag: '"v1"', 'cache-control': 'max-age=0' });
+        return res.end();
+      }
+      res.writeHead(200, { etag: '"v1"', 'cache-control': 'max-age=0' });
+      res.end('version 1');
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(requests).to.have.length(2);
+          expect(requests[1].headers['if-none-match']).to.be('"v1"');
+          expect(res.statusCode).to.be(200);
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(body).to.be('version 1');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should answer conditional requests of clients from the cache', function (done) {
+    setup(function (req, res) {
+      res.writeHead(200, { etag: '"v1"', 'cache-control': 'max-age=60' });
+      res.end('version 1');
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, { 'if-none-match': 'W/"v1"' }, function (res, body) {
+          expect(res.statusCode).to.be(304);
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(body).to.be('');
+          expect(requests).to.have.length(1);
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should serve stale responses while revalidating them', function (done) {
+    setup(function (req, res, count) {
+      if (req.headers['if-none-match']) {
+        res.writeHead(304, { etag: '"v1"', 'cache-control': 'max-age=60' });
+        return res.end();
+      }
+      res.writeHead(200, { etag: '"v1"', 'cache-control': 'max-age=0, stale-while-revalidate=60' });
+      res.end('version ' + count);
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('STALE');
+          expect(body).to.be('version 1');
+          setTimeout(function () {
+            expect(requests).to.have.length(2);
+            expect(requests[1].headers['if-none-match']).to.be('"v1"');
+            get(port, {}, function (res, body) {
+              expect(res.headers['x-cache']).to.be('HIT');
+              expect(body).to.be('version 1');
+              expect(requests).to.have.length(2);
+              close();
+              done();
+            });
+          }, 50);
+        });
+      });
+    });
+  });
+
+  it('should serve stale responses when the target fails', function (done) {
+    setup(function (req, res, count) {
+      if (count > 1) {
+        res.writeHead(500);
+        return res.end('failed');
+      }
+      res.writeHead(200, { 'cache-control': 'max-age=0, stale-if-error=60', etag: '"v1"' });
+      res.end('version 1');
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        get(port, {}, function (res, body) {
+          expect(res.statusCode).to.be(200);
+          expect(res.headers['x-cache']).to.be('STALE');
+          expect(body).to.be('version 1');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should serve stale responses when the target is down', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var source = http.createServer(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=0, stale-if-error=60', etag: '"v1"' });
+      res.end('version 1');
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      cache: true
+    }).listen(ports.proxy);
+
+    proxy.on('error', function (err) { throw err; });
+    get(ports.proxy, {}, function () {
+      source.close(function () {
+        get(ports.proxy, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('STALE');
+          expect(body).to.be('version 1');
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should invalidate responses on unsafe requests', function (done) {
+    setup(function (req, res, count) {
+      res.writeHead(200, { 'cache-control': 'max-age=60' });
+      res.end(req.method + ' ' + count);
+    }, null, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        request(port, 'POST', {}, function (res, body) {
+          expect(body).to.be('POST 2');
+          get(port, {}, function (res, body) {
+            expect(res.headers['x-cache']).to.be('MISS');
+            expect(body).to.be('GET 3');
+            close();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should use the given store', function (done) {
+    var entries = {};
+    var store = {
+      get: function (key) { return Promise.resolve(entries[key]); },
+      set: function (key, entry) { entries[key] = entry; },
+      delete: function (key) { delete entries[key]; }
+    };
+    setup(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60' });
+      res.end('stored');
+    }, { store: store }, function (proxy, port, requests, close) {
+      get(port, {}, function () {
+        var keys = Object.keys(entries);
+        expect(keys).to.have.length(1);
+        expect(entries[keys[0]].status).to.be(200);
+        expect(entries[keys[0]].body.toString()).to.be('stored');
+        get(port, {}, function (res, body) {
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(body).to.be('stored');
+          close();
+          done();
+        });
+      });
+    });
+  });
+});
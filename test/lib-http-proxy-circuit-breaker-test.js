@@ -0,0 +1,185 @@
+var CircuitBreaker = require('../module/http-proxy/circuit-breaker').CircuitBreaker,
+    httpProxy = require('../module'),
+    EventEmitter = require('events'),
+    expect = require('expect.js'),
+    http = require('http'),
+    net = require('net');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4324, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+var target = 'http://127.0.0.1:1';
+
+function stubServer() {
+  var server = new EventEmitter();
+  server.events = [];
+  ['circuitOpen', 'circuitHalfOpen', 'circuitClose'].forEach(function (name) {
+    server.on(name, function () { server.events.push(name); });
+  });
+  return server;
+}
+
+describe('module/http-proxy/circuit-breaker.js', function () {
+  describe('CircuitBreaker', function () {
+    it('should open after the failure threshold', function () {
+      var server = stubServer();
+      var breaker = new CircuitBreaker(server, { failureThreshold: 2 });
+
+      breaker.reportFailure(target);
+      expect(breaker.acquire(target)).to.be(true);
+      breaker.reportFailure(target);
+      expect(breaker.state(target)).to.be('open');
+      expect(breaker.acquire(target)).to.be(false);
+      expect(server.events).to.eql(['circuitOpen']);
+    });
+
+    it('should open once the failure rate is reached', function () {
+      var breaker = new CircuitBreaker(stubServer(), {
+        failureThreshold: 100,
+        failureRate: 0.5,
+        minRequests: 4
+      });
+
+      breaker.reportFailure(target);
+      breaker.reportFailure(target);
+      breaker.reportSuccess(target);
+      expect(breaker.state(target)).to.be('closed');
+      breaker.reportSuccess(target);
+      breaker.reportFailure(target);
+      expect(breaker.state(target)).to.be('open');
+    });
+
+    it('should only count failures against the rate when it is set', function () {
+      var breaker = new CircuitBreaker(stubServer(), { failureRate: 0.5 });
+
+      for (var i = 0; i < 14; i++) breaker.reportSuccess(target);
+      for (var j = 0; j < 6; j++) breaker.reportFailure(target);
+      expect(breaker.state(target)).to.be('closed');
+    });
+
+    it('should forget failures outside the window', function (done) {
+      var breaker = new CircuitBreaker(stubServer(), { failureThreshold: 2, window: 20 });
+      breaker.reportFailure(target);
+      setTimeout(function () {
+        breaker.reportFailure(target);
+        expect(breaker.state(target)).to.be('closed');
+        done();
+      }, 30);
+    });
+
+    it('should allow trial requests when half-open and close on success', function () {
+      var server = stubServer();
+      var breaker = new CircuitBreaker(server, { failureThreshold: 1, resetTimeout: 0 });
+
+      breaker.reportFailure(target);
+      expect(breaker.acquire(target)).to.be(true);
+      expect(breaker.state(target)).to.be('half-open');
+      breaker.reportSuccess(target);
+      expect(breaker.state(target)).to.be('closed');
+      expect(server.events).to.eql(['circuitOpen', 'circuitHalfOpen', 'circuitClose']);
+    });
+
+    it('should limit trial requests and re-open on failure', function () {
+      var breaker = new CircuitBreaker(stubServer(), { failureThreshold: 1, resetTimeout: 50 });
+
+      breaker.reportFailure(target);
+      breaker.circuits.get('http://127.0.0.1:1').changedAt -= 50;
+      expect(breaker.acquire(target)).to.be(true);
+      expect(breaker.acquire(target)).to.be(false);
+      breaker.reportFailure(target);
+      expect(breaker.state(target)).to.be('open');
+    });
+
+    it('should count configured status codes as failures', function () {
+      var breaker = new CircuitBreaker(stubServer(), {});
+      expect(breaker.isFailureStatus(503)).to.be(true);
+      expect(breaker.isFailureStatus(500)).to.be(false);
+    });
+  });
+
+  describe('#createProxyServer with circuitBreaker', function () {
+    it('should fail fast with a 503 while the circuit is open', function (done) {
+      var sourcePort = gen.port, proxyPort = gen.port, hits = 0;
+      var source = http.createServer(function (req, res) {
+        hits++;
+        res.writeHead(503);
+        res.end();
+      }).listen(sourcePort);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + sourcePort,
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 }
+      }).listen(proxyPort);
+
+      http.get('http://127.0.0.1:' + proxyPort, function (res) {
+        res.resume();
+        expect(res.statusCode).to.be(503);
+        http.get('http://127.0.0.1:' + proxyPort, function (res) {
+          res.resume();
+          expect(res.statusCode).to.be(503);
+          expect(res.headers['retry-after']).to.be('60');
+          expect(hits).to.be(1);
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+
+    it('should refuse ws upgrades while the circuit is open', function (done) {
+      var proxyPort = gen.port;
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + gen.port,
+        ws: true,
+        circuitBreaker: { failureThreshold: 1 }
+      }).listen(proxyPort);
+      proxy.circuits.reportFailure(proxy.options.target);
+
+      var client = net.connect(proxyPort, function () {
+        client.write('GET / HTTP/1.1\r\nHost: localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n');
+      });
+      var data = '';
+      client.on('data', function (chunk) { data += chunk; });
+      client.on('end', function () {
+        expect(data).to.match(/^HTTP\/1.1 503 Service Unavailable/);
+        proxy.close();
+        done();
+      });
+    });
+
+    it('should fail fast with a 503 when the circuits of a whole pool are open', function (done) {
+      var proxyPort = gen.port;
+      var targets = ['http://127.0.0.1:' + gen.port, 'http://127.0.0.1:' + gen.port];
+      var proxy = httpProxy.createProxyServer({
+        target: targets,
+        ws: true,
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 }
+      }).listen(proxyPort);
+      proxy.on('error', function (err) { throw err; });
+      targets.forEach(function (target) { proxy.circuits.reportFailure(target); });
+
+      http.get('http://127.0.0.1:' + proxyPort, function (res) {
+        res.resume();
+        expect(res.statusCode).to.be(503);
+        expect(res.headers['retry-after']).to.be('60');
+        var client = net.connect(proxyPort, function () {
+          client.write('GET / HTTP/1.1\r\nHost: localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n');
+        });
+        var data = '';
+        client.on('data', function (chunk) { data += chunk; });
+        client.on('end', function () {
+          expect(data).to.match(/^HTTP\/1.1 503 Service Unavailable\r\nRetry-After: 60\r\n/);
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+});
@@ -126,6 +126,74 @@ describe('module/http-proxy/common.js', function () {
       expect(outgoing.headers.connection).to.eql('close');
     });
 
+    it('should not forward hop-by-hop headers', function () {
+      var outgoing = {};
+      common.setupOutgoing(outgoing, {
+        httpAgent: '?',
+        target: { host: 'hey', protocol: 'http:' }
+      }, {
+        url: '/',
+        headers: {
+          connection: 'keep-alive, x-hop',
+          'keep-alive': 'timeout=5',
+          'x-hop': '1',
+          'proxy-authorization': 'Basic Zm9vOmJhcg==',
+          te: 'trailers',
+          trailer: 'expires',
+          accept: 'text/html'
+        }
+      });
+      expect(outgoing.headers).to.eql({ accept: 'text/html' });
+    });
+
+    it('should keep the upgrade headers of websocket upgrades', function () {
+      var outgoing = {};
+      common.setupOutgoing(outgoing, {
+        httpAgent: '?',
+        target: { host: 'hey', protocol: 'http:' }
+      }, {
+        method: 'GET',
+        url: '/',
+        headers: { connection: 'keep-alive, Upgrade', upgrade: 'websocket', 'keep-alive': 'timeout=5' }
+      });
+      expect(outgoing.headers).to.eql({ connection: 'upgrade', upgrade: 'websocket' });
+    });
+
+    it('should strip the upgrade headers of other upgrades', function () {
+      var outgoing = {};
+      common.setupOutgoing(outgoing, {
+        httpAgent: '?',
+        target: { host: 'hey', protocol: 'http:' }
+      }, {
+        method: 'GET',
+        url: '/',
+        headers: { connection: 'Upgrade, HTTP2-Settings', upgrade: 'h2c', 'http2-settings': 'AAMAAABkAAQCAAAAAAIAAAAA' }
+      });
+      expect(outgoing.headers).to.eql({});
+    });
+
+    it('should apply the requestHeaders rules after the headers', function () {
+      var outgoing = {};
+      common.setupOutgoing(outgoing, {
+        target: { host: 'hey' },
+        headers: { 'x-env': 'prod' },
+        requestHeaders: [
+          { rename: { 'x-token': 'authorization' }, remove: ['cookie'] },
+          { append: { 'x-env': 'eu' }, method: 'GET' },
+          { set: { 'x-admin': 'true' }, path: '/admin' }
+        ]
+      }, {
+        method: 'get',
+        url: '/api?admin',
+        headers: { 'x-token': 'abc', cookie: 'a=b', 'x-env': 'dev' }
+      });
+      expect(outgoing.headers.authorization).to.be('abc');
+      expect(outgoing.headers).to.not.have.property('x-token');
+      expect(outgoing.headers).to.not.have.property('cookie');
+      expect(outgoing.headers['x-env']).to.be('prod, eu');
+      expect(outgoing.headers).to.not.have.property('x-admin');
+    });
+
     it('should set the httpAgent to false if none is given', function () {
       var outgoing = {};
       common.setupOutgoing(outgoing, {target:
@@ -369,6 +437,54 @@ describe('module/http-proxy/common.js', function () {
 
   });
 
+  describe('#rewritePath', function () {
+    it('should apply the first matching rule of a map', function () {
+      var rules = { '^/api/v1': '/v2', '^/api': '' };
+      expect(common.rewritePath(rules, '/api/v1/users?page=2', {})).to.be('/v2/users?page=2');
+      expect(common.rewritePath(rules, '/api/users', {})).to.be('/users');
+      expect(common.rewritePath(rules, '/other', {})).to.be('/other');
+    });
+
+    it('should strip a path prefix', function () {
+      expect(common.rewritePath('/api', '/api/users', {})).to.be('/users');
+      expect(common.rewritePath('/api/', '/api?x=1', {})).to.be('/?x=1');
+      expect(common.rewritePath('/api', '/apiary', {})).to.be('/apiary');
+    });
+
+    it('should call functions with the path and request', function () {
+      var req = { url: '/a' };
+      expect(common.rewritePath(function (path, r) {
+        expect(r).to.be(req);
+        return path + '/b';
+      }, '/a', req)).to.be('/a/b');
+    });
+  });
+
+  describe('#applyPathRewrite', function () {
+    it('should store the rewritten path for setupOutgoing', function () {
+      var outgoing = {};
+      var options = { target: { path: '/base' }, pathRewrite: { '^/api': '' } };
+      expect(common.applyPathRewrite(options, { url: '/api/users?q=1' })).to.be(undefined);
+      common.setupOutgoing(outgoing, options, { url: '/api/users?q=1' });
+      expect(outgoing.path).to.be('/base/users?q=1');
+    });
+
+    it('should resolve asynchronous rewrites', function () {
+      var options = { target: {}, pathRewrite: function (path) {
+        return Promise.resolve(path.replace('/old', '/new'));
+      } };
+      return common.applyPathRewrite(options, { url: '/old/x' }).then(function () {
+        expect(options.rewrittenPath).to.be('/new/x');
+      });
+    });
+
+    it('should not rewrite with ignorePath', function () {
+      var options = { target: {}, ignorePath: true, pathRewrite: '/api' };
+      common.applyPathRewrite(options, { url: '/api/x' });
+      expect(options.rewrittenPath).to.be(undefined);
+    });
+  });
+
   describe('#setupSocket', function () {
     it('should setup a socket', function () {
       var socketConfig = {
@@ -0,0 +1,224 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 6024, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target with CORS headers of its own, and a proxy to it with the
+// given `cors`. `requests` lists what the target received.
+//
+function setup(cors, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var requests = [];
+  var source = http.createServer(function (req, res) {
+    requests.push(req);
+    res.writeHead(200, {
+      'access-control-allow-origin': '*',
+      'access-control-allow-headers': 'x-anything',
+      vary: 'Accept-Encoding'
+    });
+    res.end('ok');
+  });
+  source.listen(ports.source, function () {
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      cors: cors
+    }).listen(ports.proxy);
+    cb(proxy, ports.proxy, requests, function () {
+      proxy.close();
+      source.close();
+    });
+  });
+}
+
+function request(port, method, headers, cb) {
+  http.request({
+    hostname: '127.0.0.1',
+    port: port,
+    method: method,
+    headers: headers
+  }, function (res) {
+    res.resume();
+    res.on('end', function () { cb(res); });
+  }).end();
+}
+
+describe('lib/http-proxy.js cors', function () {
+  it('should answer preflight requests without the target', function (done) {
+    setup({
+      origin: ['https://app.example.com', /\.example\.org$/],
+      credentials: true,
+      maxAge: 600
+    }, function (proxy, port, requests, close) {
+      request(port, 'OPTIONS', {
+        origin: 'https://www.example.org',
+        'access-control-request-method': 'PUT',
+        'access-control-request-headers': 'content-type, x-token'
+      }, function (res) {
+        expect(res.statusCode).to.be(204);
+        expect(res.headers['access-control-allow-origin']).to.be('https://www.example.org');
+        expect(res.headers['access-control-allow-credentials']).to.be('true');
+        expect(res.headers['access-control-allow-methods']).to.be('GET, HEAD, PUT, PATCH, POST, DELETE');
+        expect(res.headers['access-control-allow-headers']).to.be('content-type, x-token');
+        expect(res.headers['access-control-max-age']).to.be('600');
+        expect(res.headers.vary).to.be('Origin, Access-Control-Request-Headers');
+        expect(requests).to.have.length(0);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should refuse preflight requests of other origins', function (done) {
+    setup({ origin: 'https://app.example.com' }, function (proxy, port, requests, close) {
+      request(port, 'OPTIONS', {
+        origin: 'https://evil.example.com',
+        'access-control-request-method': 'DELETE'
+      }, function (res) {
+        expect(res.statusCode).to.be(403);
+        expect(res.headers).to.not.have.property('access-control-allow-origin');
+        expect(requests).to.have.length(0);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should forward OPTIONS requests that are not preflights', function (done) {
+    setup({ origin: 'https://app.example.com' }, function (proxy, port, requests, close) {
+      request(port, 'OPTIONS', {}, function (res) {
+        expect(res.statusCode).to.be(200);
+        expect(requests).to.have.length(1);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should replace the CORS headers of the target', function (done) {
+    setup({
+      origin: function (origin) { return origin.indexOf('https://') === 0; },
+      credentials: true,
+      exposedHeaders: ['x-request-id', 'x-total']
+    }, function (proxy, port, requests, close) {
+      request(port, 'GET', { origin: 'https://app.example.com' }, function (res) {
+        expect(res.headers['access-control-allow-origin']).to.be('https://app.example.com');
+        expect(res.headers['access-control-allow-credentials']).to.be('true');
+        expect(res.headers['access-control-expose-headers']).to.be('x-request-id, x-total');
+        expect(res.headers).to.not.have.property('access-control-allow-headers');
+        expect(res.headers.vary).to.be('Accept-Encoding, Origin');
+        request(port, 'GET', { origin: 'http://app.example.com' }, function (res) {
+          expect(res.statusCode).to.be(200);
+          expect(res.headers).to.not.have.property('access-control-allow-origin');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should allow any origin by default', function (done) {
+    setup({}, function (proxy, port, requests, close) {
+      request(port, 'GET', { origin: 'https://anywhere.example.com' }, function (res) {
+        expect(res.headers['access-control-allow-origin']).to.be('*');
+        expect(res.headers.vary).to.be('Accept-Encoding');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should require the allowed origins with credentials', function () {
+    expect(function () {
+      httpProxy.createProxyServer({ cors: { credentials: true } });
+    }).to.throwError(/credentials/);
+    expect(function () {
+      httpProxy.createProxyServer({ cors: { origin: ['https://app.example.com', '*'], credentials: true } });
+    }).to.throwError(/credentials/);
+  });
+
+  it('should not allow any origin with credentials given per request', function (done) {
+    var port = gen.port;
+    var source = http.createServer(function (req, res) { res.end('ok'); });
+    var proxyServer = http.createServer(function (req, res) {
+      proxy.web({ req: req, res: res, options: { cors: { credentials: true } } });
+    });
+    var proxy = httpProxy.createProxyServer({ target: 'http://127.0.0.1:' + port });
+    source.listen(port, function () {
+      proxyServer.listen(gen.port, function () {
+        request(proxyServer.address().port, 'GET', { origin: 'https://evil.example.com' }, function (res) {
+          expect(res.statusCode).to.be(200);
+          expect(res.headers).to.not.have.property('access-control-allow-origin');
+          expect(res.headers).to.not.have.property('access-control-allow-credentials');
+          proxyServer.close();
+          source.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should set the CORS headers of each origin on cached responses', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var source = http.createServer(function (req, res) {
+      res.writeHead(200, { 'cache-control': 'max-age=60', 'access-control-allow-origin': '*' });
+      res.end('ok');
+    });
+    source.listen(ports.source, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        cache: true,
+        cors: { origin: ['https://a.example', 'https://b.example'], credentials: true }
+      }).listen(ports.proxy);
+      var a = { origin: 'https://a.example' }, b = { origin: 'https://b.example' };
+      request(ports.proxy, 'GET', a, function (res) {
+        expect(res.headers['x-cache']).to.be('MISS');
+        request(ports.proxy, 'GET', a, function (res) {
+          expect(res.headers['x-cache']).to.be('HIT');
+          expect(res.headers['access-control-allow-origin']).to.be('https://a.example');
+          request(ports.proxy, 'GET', b, function (res) {
+            expect(res.headers['x-cache']).to.be('MISS');
+            expect(res.headers['access-control-allow-origin']).to.be('https://b.example');
+            request(ports.proxy, 'GET', b, function (res) {
+              expect(res.headers['x-cache']).to.be('HIT');
+              expect(res.headers['access-control-allow-origin']).to.be('https://b.example');
+              expect(res.headers['access-control-allow-credentials']).to.be('true');
+              expect(res.headers.vary).to.be('Origin');
+              proxy.close();
+              source.close();
+              done();
+            });
+          });
+        });
+      });
+    });
+  });
+
+  it('should set the CORS headers of errors of the proxy', function (done) {
+    var port = gen.port;
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + gen.port,
+      cors: { origin: 'https://app.example.com' }
+    }).listen(port);
+    proxy.on('error', function (err, req, res) {
+      res.writeHead(502);
+      res.end();
+    });
+    request(port, 'GET', { origin: 'https://app.example.com' }, function (res) {
+      expect(res.statusCode).to.be(502);
+      expect(res.headers['access-control-allow-origin']).to.be('https://app.example.com');
+      proxy.close();
+      done();
+    });
+  });
+});
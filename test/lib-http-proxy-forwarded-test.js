@@ -0,0 +1,135 @@
+var httpProxy = require('../module'),
+    webPasses = require('../module/http-proxy/passes/web-incoming').default,
+    wsPasses = require('../module/http-proxy/passes/ws-incoming').default,
+    TrustedProxies = require('../module/http-proxy/forwarded').TrustedProxies,
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 6124, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function stubRequest(remoteAddress, headers) {
+  return {
+    socket: { remoteAddress: remoteAddress },
+    headers: Object.assign({ host: 'example.com:8080' }, headers)
+  };
+}
+
+var spoofed = {
+  'x-forwarded-for': '1.2.3.4',
+  'x-forwarded-host': 'evil.example.com',
+  forwarded: 'for=1.2.3.4'
+};
+
+describe('lib/http-proxy.js forwarding headers', function () {
+  var server = { trustedProxies: new TrustedProxies(['10.0.0.0/8', '2001:db8::1']) };
+
+  it('should replace the forwarding headers of untrusted clients', function () {
+    var req = stubRequest('192.168.1.2', spoofed);
+    webPasses.XHeaders(req, {}, { xfwd: true, xfwdFormat: 'both' }, {}, server);
+    expect(req.headers['x-forwarded-for']).to.be('192.168.1.2');
+    expect(req.headers['x-forwarded-port']).to.be('8080');
+    expect(req.headers['x-forwarded-proto']).to.be('http');
+    expect(req.headers['x-forwarded-host']).to.be('example.com:8080');
+    expect(req.headers.forwarded).to.be('for=192.168.1.2;host="example.com:8080";proto=http');
+  });
+
+  it('should append to the forwarding headers of trusted proxies', function () {
+    var req = stubRequest('::ffff:10.1.2.3', spoofed);
+    webPasses.XHeaders(req, {}, { xfwd: true, xfwdFormat: 'both' }, {}, server);
+    expect(req.headers['x-forwarded-for']).to.be('1.2.3.4,::ffff:10.1.2.3');
+    expect(req.headers['x-forwarded-host']).to.be('evil.example.com');
+    expect(req.headers.forwarded).to.be('for=1.2.3.4, for="[::ffff:10.1.2.3]";host="example.com:8080";proto=http');
+  });
+
+  it('should only set the Forwarded header in the forwarded format', function () {
+    var req = stubRequest('2001:db8::1', spoofed);
+    wsPasses.XHeaders(req, {}, { xfwd: true, xfwdFormat: 'forwarded' }, {}, server);
+    expect(req.headers.forwarded).to.be('for=1.2.3.4, for="[2001:db8::1]";host="example.com:8080";proto=ws');
+    expect(req.headers['x-forwarded-for']).to.be('1.2.3.4');
+    expect(req.headers).to.not.have.property('x-forwarded-proto');
+  });
+
+  it('should set x-forwarded-host for websockets', function () {
+    var req = stubRequest('192.168.1.2', spoofed);
+    wsPasses.XHeaders(req, {}, { xfwd: true }, {}, server);
+    expect(req.headers['x-forwarded-host']).to.be('example.com:8080');
+    expect(req.headers['x-forwarded-proto']).to.be('ws');
+    expect(req.headers).to.not.have.property('forwarded');
+  });
+
+  it('should find the client address behind trusted proxies', function () {
+    var proxy = httpProxy.createProxyServer({ trustedProxies: ['10.0.0.0/8'] });
+    expect(proxy.clientAddress(stubRequest('192.168.1.2', { 'x-forwarded-for': '1.2.3.4' }))).to.be('192.168.1.2');
+    expect(proxy.clientAddress(stubRequest('10.0.0.1', { 'x-forwarded-for': '1.2.3.4, 5.6.7.8, 10.0.0.2' }))).to.be('5.6.7.8');
+    expect(proxy.clientAddress(stubRequest('10.0.0.1', {}))).to.be('10.0.0.1');
+
+    var forwarded = httpProxy.createProxyServer({ trustedProxies: ['10.0.0.0/8'], xfwdFormat: 'forwarded' });
+    expect(forwarded.clientAddress(stubRequest('10.0.0.1', {
+      forwarded: 'for="[2001:db8::7]:4711";proto=https, for=10.0.0.2'
+    }))).to.be('2001:db8::7');
+  });
+
+  it('should forward the headers of proxied requests', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var source = http.createServer(function (req, res) {
+      res.end(JSON.stringify(req.headers));
+    });
+    source.listen(ports.source, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        xfwd: true,
+        xfwdFormat: 'both'
+      }).listen(ports.proxy);
+      http.get({
+        hostname: '127.0.0.1',
+        port: ports.proxy,
+        headers: { 'x-forwarded-for': '1.2.3.4', forwarded: 'for=1.2.3.4' }
+      }, function (res) {
+        var body = '';
+        res.on('data', function (chunk) { body += chunk; });
+        res.on('end', function () {
+          var headers = JSON.parse(body);
+          expect(headers['x-forwarded-for']).to.match(/^(::ffff:)?127\.0\.0\.1$/);
+          expect(headers.forwarded).to.match(/^for=("\[::ffff:127\.0\.0\.1\]"|127\.0\.0\.1);host="127\.0\.0\.1:\d+";proto=http$/);
+          proxy.close();
+          source.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should forward the headers of websocket upgrades', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        xfwd: true
+      }).listen(ports.proxy);
+      destiny.on('connection', function (socket, req) {
+        expect(req.headers['x-forwarded-host']).to.be('127.0.0.1:' + ports.proxy);
+        expect(req.headers['x-forwarded-proto']).to.be('ws');
+        socket.close();
+      });
+      var client = new ws('ws://127.0.0.1:' + ports.proxy, {
+        headers: { 'x-forwarded-host': 'evil.example.com' }
+      });
+      client.on('close', function () {
+        proxy.close();
+        destiny.close();
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 6224, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target answering with the given status and headers, and the
+// request headers it got as JSON, and a proxy to it with `options`.
+//
+function setup(status, headers, options, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var source = http.createServer(function (req, res) {
+    res.writeHead(req.url === '/missing' ? 404 : status, headers);
+    res.end(JSON.stringify(req.headers));
+  });
+  source.listen(ports.source, function () {
+    var proxy = httpProxy.createProxyServer(Object.assign({
+      target: 'http://127.0.0.1:' + ports.source
+    }, options)).listen(ports.proxy);
+    cb(ports.proxy, function () {
+      proxy.close();
+      source.close();
+    });
+  });
+}
+
+function get(port, path, headers, cb) {
+  http.get({ hostname: '127.0.0.1', port: port, path: path, headers: headers }, function (res) {
+    var body = '';
+    res.on('data', function (chunk) { body += chunk; });
+    res.on('end', function () { cb(res, JSON.parse(body)); });
+  });
+}
+
+describe('lib/http-proxy.js header rules', function () {
+  it('should strip hop-by-hop headers in both directions', function (done) {
+    setup(200, {
+      connection: 'x-upstream-hop',
+      'x-upstream-hop': '1',
+      'keep-alive': 'timeout=1',
+      trailer: 'expires',
+      'x-kept': 'yes'
+    }, {}, function (port, close) {
+      get(port, '/', {
+        connection: 'x-client-hop',
+        'x-client-hop': '1',
+        'proxy-authorization': 'Basic Zm9vOmJhcg==',
+        te: 'trailers'
+      }, function (res, headers) {
+        expect(headers).to.not.have.property('x-client-hop');
+        expect(headers).to.not.have.property('proxy-authorization');
+        expect(headers).to.not.have.property('te');
+        expect(res.headers).to.not.have.property('x-upstream-hop');
+        expect(res.headers).to.not.have.property('trailer');
+        expect(res.headers['x-kept']).to.be('yes');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should change the headers of requests and responses', function (done) {
+    setup(200, { server: 'nginx', 'x-powered-by': 'php', 'x-version': '3' }, {
+      headers: { 'x-env': 'prod' },
+      requestHeaders: [
+        { set: { 'x-request-path': function (req) { return req.url; } } },
+        { remove: ['cookie'], path: /^\/static\// }
+      ],
+      responseHeaders: [
+        { remove: ['server', 'x-powered-by'], rename: { 'x-version': 'x-api-version' } },
+        { set: { 'cache-control': 'no-store' }, status: [404, 500] },
+        { append: { vary: 'accept-language' }, method: 'GET' }
+      ]
+    }, function (port, close) {
+      get(port, '/static/app.js', { cookie: 'session=1' }, function (res, headers) {
+        expect(headers['x-env']).to.be('prod');
+        expect(headers['x-request-path']).to.be('/static/app.js');
+        expect(headers).to.not.have.property('cookie');
+        expect(res.headers).to.not.have.property('server');
+        expect(res.headers).to.not.have.property('x-powered-by');
+        expect(res.headers['x-api-version']).to.be('3');
+        expect(res.headers).to.not.have.property('cache-control');
+        expect(res.headers.vary).to.be('accept-language');
+        get(port, '/missing', { cookie: 'session=1' }, function (res, headers) {
+          expect(headers.cookie).to.be('session=1');
+          expect(res.statusCode).to.be(404);
+          expect(res.headers['cache-control']).to.be('no-store');
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should keep websocket upgrades working', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        requestHeaders: [{ set: { 'x-proxied': 'yes' } }]
+      }).listen(ports.proxy);
+      destiny.on('connection', function (socket, req) {
+        expect(req.headers['x-proxied']).to.be('yes');
+        expect(req.headers).to.not.have.property('proxy-authorization');
+        socket.send('hello');
+      });
+      var client = new ws('ws://127.0.0.1:' + ports.proxy, {
+        headers: { 'proxy-authorization': 'Basic Zm9vOmJhcg==' }
+      });
+      client.on('message', function (message) {
+        expect(String(message)).to.be('hello');
+        client.close();
+        proxy.close();
+        destiny.close();
+        done();
+      });
+    });
+  });
+});
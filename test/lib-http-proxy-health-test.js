@@ -0,0 +1,171 @@
+var HealthChecker = require('../module/http-proxy/health').HealthChecker,
+    httpProxy = require('../module'),
+    EventEmitter = require('events'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4124, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function stubServer() {
+  var server = new EventEmitter();
+  server.options = {};
+  server.events = [];
+  ['upstreamHealthy', 'upstreamUnhealthy'].forEach(function (name) {
+    server.on(name, function (target) {
+      server.events.push(name + ' ' + target.port);
+    });
+  });
+  return server;
+}
+
+describe('module/http-proxy/health.js', function () {
+  describe('passive checks', function () {
+    it('should mark an upstream unhealthy after consecutive failures', function () {
+      var server = stubServer();
+      var checker = new HealthChecker(server, { unhealthyThreshold: 2 });
+
+      checker.reportFailure('http://127.0.0.1:1');
+      checker.reportSuccess('http://127.0.0.1:1');
+      checker.reportFailure('http://127.0.0.1:1');
+      expect(checker.isHealthy('http://127.0.0.1:1')).to.be(true);
+
+      checker.reportFailure('http://127.0.0.1:1');
+      expect(checker.isHealthy('http://127.0.0.1:1')).to.be(false);
+      expect(server.events).to.eql(['upstreamUnhealthy 1']);
+    });
+
+    it('should recover after enough successes', function () {
+      var server = stubServer();
+      var checker = new HealthChecker(server, { unhealthyThreshold: 1, healthyThreshold: 2 });
+
+      checker.reportFailure('http://127.0.0.1:1');
+      checker.reportSuccess('http://127.0.0.1:1');
+      expect(server.events).to.eql(['upstreamUnhealthy 1']);
+      checker.reportSuccess('http://127.0.0.1:1');
+      expect(server.events).to.eql(['upstreamUnhealthy 1', 'upstreamHealthy 1']);
+      expect(checker.isHealthy('http://127.0.0.1:1')).to.be(true);
+    });
+
+    it('should let traffic through again after the cooldown', function () {
+      var checker = new HealthChecker(stubServer(), { unhealthyThreshold: 1, cooldown: 0 });
+      checker.reportFailure('http://127.0.0.1:1');
+      expect(checker.isHealthy('http://127.0.0.1:1')).to.be(true);
+    });
+  });
+
+  describe('active checks', function () {
+    it('should probe the configured path and check the status', function (done) {
+      var port = gen.port, paths = [];
+      var source = http.createServer(function (req, res) {
+        paths.push(req.url);
+        res.writeHead(req.url === '/healthz' ? 204 : 500);
+        res.end();
+      }).listen(port);
+
+      var checker = new HealthChecker(stubServer(), { path: '/healthz', expectedStatus: [200, 204] });
+      checker.probe(checker.track('http://127.0.0.1:' + port).target).then(function (ok) {
+        expect(ok).to.be(true);
+        checker.options.path = '/broken';
+        return checker.probe(checker.track('http://127.0.0.1:' + port).target);
+      }).then(function (ok) {
+        expect(ok).to.be(false);
+        expect(paths).to.eql(['/healthz', '/broken']);
+        source.close();
+        done();
+      }).catch(done);
+    });
+
+    it('should fail probes that time out', function (done) {
+      var port = gen.port;
+      var source = http.createServer(function () {}).listen(port);
+      var server = stubServer();
+      var checker = new HealthChecker(server, { path: '/', timeout: 20, unhealthyThreshold: 1 });
+
+      checker.probe(checker.track('http://127.0.0.1:' + port).target).then(function (ok) {
+        expect(ok).to.be(false);
+        expect(server.events).to.eql(['upstreamUnhealthy ' + port]);
+        source.closeAllConnections();
+        source.close();
+        done();
+      }).catch(done);
+    });
+  });
+
+  describe('#createProxyServer with healthCheck', function () {
+    it('should probe the members of pools while they are kept', function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:1',
+        healthCheck: { path: '/healthz' }
+      });
+      function tracked() {
+        return Array.from(proxy.health.upstreams.keys());
+      }
+
+      proxy.getPool(['http://127.0.0.1:1', 'http://127.0.0.1:2']);
+      proxy.getPool(['http://127.0.0.1:3']);
+      expect(tracked()).to.eql(['http://127.0.0.1:1', 'http://127.0.0.1:2', 'http://127.0.0.1:3']);
+      for (var port = 4; port < 103; port++) {
+        proxy.getPool(['http://127.0.0.1:2', 'http://127.0.0.1:' + port]);
+      }
+      // the first pool is gone, but `target` and the later pools use its members
+      expect(proxy.pools.size).to.be(100);
+      expect(tracked()).to.contain('http://127.0.0.1:1');
+      expect(tracked()).to.contain('http://127.0.0.1:2');
+      proxy.getPool(['http://127.0.0.1:103']);
+      expect(tracked()).to.not.contain('http://127.0.0.1:3');
+      expect(tracked()).to.contain('http://127.0.0.1:103');
+      proxy.close();
+    });
+
+    it('should skip an unhealthy member of the target pool', function (done) {
+      var deadPort = gen.port, livePort = gen.port, proxyPort = gen.port;
+      var source = http.createServer(function (req, res) {
+        res.end('alive');
+      }).listen(livePort);
+      var proxy = httpProxy.createProxyServer({
+        target: ['http://127.0.0.1:' + deadPort, 'http://127.0.0.1:' + livePort],
+        healthCheck: { unhealthyThreshold: 1 }
+      }).listen(proxyPort);
+
+      var unhealthy = [];
+      proxy.on('upstreamUnhealthy', function (target, err) {
+        unhealthy.push(target.port);
+        expect(err.code).to.be('ECONNREFUSED');
+      });
+      proxy.on('error', function (err, req, res) {
+        res.writeHead(502);
+        res.end();
+      });
+
+      function request(cb) {
+        http.get('http://127.0.0.1:' + proxyPort, function (res) {
+          res.resume();
+          res.on('end', function () { cb(res.statusCode); });
+        });
+      }
+
+      request(function (status) {
+        expect(status).to.be(502);
+        request(function (status) {
+          expect(status).to.be(200);
+          request(function (status) {
+            expect(status).to.be(200);
+            expect(unhealthy).to.eql([String(deadPort)]);
+            source.close();
+            proxy.close();
+            done();
+          });
+        });
+      });
+    });
+  });
+});
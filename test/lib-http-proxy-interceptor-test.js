@@ -0,0 +1,292 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    stream = require('stream'),
+    http = require('http'),
+    zlib = require('zlib');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4624, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function setup(handler, options, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var source = http.createServer(handler).listen(ports.source);
+  options.target = 'http://127.0.0.1:' + ports.source;
+  var proxy = httpProxy.createProxyServer(options).listen(ports.proxy);
+  cb(ports.proxy, function () {
+    source.close();
+    proxy.close();
+  }, proxy);
+}
+
+function get(port, opts, cb) {
+  http.request(Object.assign({ hostname: '127.0.0.1', port: port }, opts), function (res) {
+    var chunks = [];
+    res.on('data', function (chunk) { chunks.push(chunk); });
+    res.on('end', function () { cb(res, Buffer.concat(chunks)); });
+  }).end();
+}
+
+describe('module/http-proxy/interceptor.js', function () {
+  it('should rewrite a plain body and fix content-length', function (done) {
+    setup(function (req, res) {
+      res.writeHead(201, { 'content-type': 'text/html', 'content-length': 13, 'x-custom': 'kept' });
+      res.end('<body></body>');
+    }, {
+      responseInterceptor: function (body, ctx) {
+        expect(ctx.upstreamRes.statusCode).to.be(201);
+        return body.toString().replace('</body>', 'injected</body>');
+      }
+    }, function (port, close) {
+      get(port, {}, function (res, body) {
+        expect(res.statusCode).to.be(201);
+        expect(res.headers['x-custom']).to.be('kept');
+        expect(res.headers['content-length']).to.be('21');
+        expect(body.toString()).to.be('<body>injected</body>');
+        close();
+        done();
+      });
+    });
+  });
+
+  ['gzip', 'deflate', 'br'].forEach(function (encoding) {
+    it('should decode and re-encode ' + encoding + ' bodies', function (done) {
+      var encode = { gzip: zlib.gzipSync, deflate: zlib.deflateSync, br: zlib.brotliCompressSync }[encoding];
+      var decode = { gzip: zlib.gunzipSync, deflate: zlib.inflateSync, br: zlib.brotliDecompressSync }[encoding];
+      setup(function (req, res) {
+        res.writeHead(200, { 'content-encoding': encoding, 'content-type': 'application/json' });
+        res.end(encode(JSON.stringify({ user: 'alice', password: 'secret' })));
+      }, {
+        responseInterceptor: function (body) {
+          var json = JSON.parse(body);
+          delete json.password;
+          return JSON.stringify(json);
+        }
+      }, function (port, close) {
+        get(port, {}, function (res, body) {
+          expect(res.headers['content-encoding']).to.be(encoding);
+          expect(Number(res.headers['content-length'])).to.be(body.length);
+          expect(JSON.parse(decode(body))).to.eql({ user: 'alice' });
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should pipe the decoded body through a stream transform', function (done) {
+    setup(function (req, res) {
+      res.writeHead(200, { 'content-encoding': 'gzip' });
+      var gzip = zlib.createGzip();
+      gzip.pipe(res);
+      gzip.write('hello ');
+      gzip.end('world');
+    }, {
+      responseInterceptor: {
+        mode: 'stream',
+        transform: function () {
+          return new stream.Transform({
+            transform: function (chunk, enc, cb) { cb(null, chunk.toString().toUpperCase()); }
+          });
+        }
+      }
+    }, function (port, close) {
+      get(port, {}, function (res, body) {
+        expect(res.headers['content-length']).to.be(undefined);
+        expect(zlib.gunzipSync(body).toString()).to.be('HELLO WORLD');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should pass through filtered, bodiless and unknown-encoding responses', function (done) {
+    var calls = 0;
+    setup(function (req, res) {
+      if (req.url === '/zstd') {
+        res.writeHead(200, { 'content-encoding': 'zstd' });
+        return res.end('raw');
+      }
+      res.writeHead(200, { 'content-type': req.url === '/json' ? 'application/json' : 'text/plain' });
+      res.end('body');
+    }, {
+      responseInterceptor: {
+        filter: function (ctx) { return ctx.upstreamRes.headers['content-type'] === 'application/json'; },
+        transform: function () { calls++; return 'changed'; }
+      }
+    }, function (port, close) {
+      get(port, { path: '/text' }, function (res, body) {
+        expect(body.toString()).to.be('body');
+        get(port, { path: '/zstd' }, function (res, body) {
+          expect(body.toString()).to.be('raw');
+          get(port, { path: '/json', method: 'HEAD' }, function (res, body) {
+            expect(body.length).to.be(0);
+            get(port, { path: '/json' }, function (res, body) {
+              expect(body.toString()).to.be('changed');
+              expect(calls).to.be(1);
+              close();
+              done();
+            });
+          });
+        });
+      });
+    });
+  });
+
+  it('should report bodies above maxBodySize', function (done) {
+    setup(function (req, res) {
+      res.end('way too long');
+    }, {
+      responseInterceptor: { maxBodySize: 4, transform: function () {} }
+    }, function (port, close, proxy) {
+      proxy.on('error', function (err, req, res) {
+        expect(err.code).to.be('EBODYTOOLARGE');
+        res.writeHead(502);
+        res.end();
+      });
+      get(port, {}, function (res) {
+        expect(res.statusCode).to.be(502);
+        close();
+        done();
+      });
+    });
+  });
+
+  describe('requestInterceptor', function () {
+    function post(port, opts, body, cb) {
+      var req = http.request(Object.assign({ hostname: '127.0.0.1', port: port, method: 'POST' }, opts), function (res) {
+        var chunks = [];
+        res.on('data', function (chunk) { chunks.push(chunk); });
+        res.on('end', function () { cb(res, Buffer.concat(chunks).toString()); });
+      });
+      req.end(body);
+    }
+
+    function echo(req, res) {
+      var body = '';
+      req.on('data', function (chunk) { body += chunk; });
+      req.on('end', function () {
+        res.end(JSON.stringify({ headers: req.headers, body: body }));
+      });
+    }
+
+    it('should rewrite JSON bodies and headers for the target and forward', function (done) {
+      var ports = { source: gen.port, forward: gen.port, proxy: gen.port };
+      var source = http.createServer(echo).listen(ports.source);
+      var forward = http.createServer(function (req, res) {
+        var body = '';
+        req.on('data', function (chunk) { body += chunk; });
+        req.on('end', function () {
+          expect(req.headers['content-length']).to.be(String(body.length));
+          expect(JSON.parse(body)).to.eql({ user: 'alice', role: 'admin' });
+          res.end();
+          forward.close();
+          finish();
+        });
+      }).listen(ports.forward);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        forward: 'http://127.0.0.1:' + ports.forward,
+        requestInterceptor: function (body, ctx) {
+          expect(ctx.type).to.be('json');
+          ctx.headers['x-intercepted'] = 'yes';
+          delete ctx.headers['x-secret'];
+          return new Promise(function (resolve) {
+            setTimeout(function () {
+              resolve(Object.assign({}, body, { role: 'admin' }));
+            }, 5);
+          });
+        }
+      }).listen(ports.proxy);
+      var pending = 2;
+      function finish() {
+        if (--pending) return;
+        source.close();
+        proxy.close();
+        done();
+      }
+
+      post(ports.proxy, { headers: { 'content-type': 'application/json', 'x-secret': 's' } }, '{"user":"alice"}', function (res, data) {
+        var echoed = JSON.parse(data);
+        expect(JSON.parse(echoed.body)).to.eql({ user: 'alice', role: 'admin' });
+        expect(echoed.headers['content-length']).to.be(String(echoed.body.length));
+        expect(echoed.headers['x-intercepted']).to.be('yes');
+        expect(echoed.headers['x-secret']).to.be(undefined);
+        finish();
+      });
+    });
+
+    it('should reserialize urlencoded bodies changed in place', function (done) {
+      setup(echo, {
+        requestInterceptor: function (body, ctx) {
+          expect(ctx.type).to.be('urlencoded');
+          body.page = '2';
+        }
+      }, function (port, close) {
+        post(port, { headers: { 'content-type': 'application/x-www-form-urlencoded' } }, 'q=proxy', function (res, data) {
+          expect(JSON.parse(data).body).to.be('q=proxy&page=2');
+          close();
+          done();
+        });
+      });
+    });
+
+    it('should leave bodiless and filtered requests alone', function (done) {
+      var calls = 0;
+      setup(echo, {
+        requestInterceptor: {
+          filter: function (ctx) { return ctx.req.url !== '/skip'; },
+          transform: function () { calls++; return 'changed'; }
+        }
+      }, function (port, close) {
+        get(port, {}, function (res, data) {
+          expect(JSON.parse(data).body).to.be('');
+          post(port, { path: '/skip' }, 'raw', function (res, data) {
+            expect(JSON.parse(data).body).to.be('raw');
+            post(port, {}, 'raw', function (res, data) {
+              expect(JSON.parse(data).body).to.be('changed');
+              expect(calls).to.be(1);
+              close();
+              done();
+            });
+          });
+        });
+      });
+    });
+
+    it('should reject bodies above maxBodySize with a 413', function (done) {
+      setup(echo, {
+        requestInterceptor: { maxBodySize: 4, transform: function () {} }
+      }, function (port, close, proxy) {
+        proxy.on('error', function (err) { throw err; });
+        post(port, {}, 'way too long', function (res, data) {
+          expect(res.statusCode).to.be(413);
+          expect(data).to.be('Payload Too Large');
+          close();
+          done();
+        });
+      });
+    });
+
+    it('should reject invalid JSON with a 400', function (done) {
+      setup(echo, {
+        requestInterceptor: { transform: function () {} }
+      }, function (port, close, proxy) {
+        proxy.on('error', function (err) { throw err; });
+        post(port, { headers: { 'content-type': 'application/json' } }, '{', function (res, data) {
+          expect(res.statusCode).to.be(400);
+          expect(data).to.be('Bad Request');
+          close();
+          done();
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4924, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function get(url, cb) {
+  http.get(url, function (res) {
+    res.resume();
+    res.on('end', function () { setImmediate(cb, res); });
+  });
+}
+
+function find(samples, labels) {
+  return samples.filter(function (sample) {
+    return Object.keys(labels).every(function (name) {
+      return sample.labels[name] === labels[name];
+    });
+  })[0];
+}
+
+describe('lib/http-proxy.js metrics', function () {
+  it('should count requests by status class and observe latencies', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var target = 'http://127.0.0.1:' + ports.source;
+    var source = http.createServer(function (req, res) {
+      res.writeHead(req.url === '/missing' ? 404 : 200);
+      res.end();
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: target,
+      metrics: { buckets: [10, 0.5] }
+    }).listen(ports.proxy);
+
+    get('http://127.0.0.1:' + ports.proxy + '/', function () {
+      get('http://127.0.0.1:' + ports.proxy + '/missing', function () {
+        var metrics = proxy.metrics();
+        expect(find(metrics.requests, { status: '2xx' })).to.eql({
+          labels: { target: target, method: 'GET', status: '2xx' }, value: 1
+        });
+        expect(find(metrics.requests, { status: '4xx' }).value).to.be(1);
+        expect(find(metrics.inFlight, { target: target }).value).to.be(0);
+        expect(metrics.upstreamHeaders[0].count).to.be(2);
+        expect(metrics.duration[0].count).to.be(2);
+        expect(metrics.duration[0].buckets.map(function (b) { return b.le; })).to.eql([0.5, 10]);
+        expect(metrics.duration[0].buckets[1].count).to.be(2);
+        source.close();
+        proxy.close();
+        done();
+      });
+    });
+  });
+
+  it('should count errors by code and still throw unhandled ones', function (done) {
+    var proxy = httpProxy.createProxyServer({ target: 'http://127.0.0.1:' + gen.port });
+    var error = new Error('boom');
+    error.code = 'EBOOM';
+    expect(function () { proxy.emit('error', error); }).to.throwError(/boom/);
+
+    var proxyServer = http.createServer(function (req, res) {
+      proxy.web({ req: req, res: res });
+    }).listen(gen.port);
+    proxy.on('error', function (err, req, res) {
+      res.writeHead(502);
+      res.end();
+    });
+
+    get('http://127.0.0.1:' + proxyServer.address().port, function (res) {
+      expect(res.statusCode).to.be(502);
+      var errors = proxy.metrics().errors;
+      expect(find(errors, { code: 'EBOOM' }).value).to.be(1);
+      expect(find(errors, { code: 'ECONNREFUSED' }).value).to.be(1);
+      expect(find(proxy.metrics().requests, { status: '5xx' }).value).to.be(1);
+      proxyServer.close();
+      done();
+    });
+  });
+
+  it('should count requests answered by the proxy and handled errors', function (done) {
+    var ports = { proxy: gen.port, source: gen.port };
+    var target = 'http://127.0.0.1:' + ports.source;
+    var proxy = httpProxy.createProxyServer({
+      target: target,
+      rateLimit: { limit: 1, window: 60000 }
+    });
+    var proxyServer = http.createServer(function (req, res) {
+      proxy.web({
+        req: req,
+        res: res,
+        errorHandler: function (err, req, res) {
+          res.writeHead(502);
+          res.end();
+        }
+      });
+    }).listen(ports.proxy);
+
+    get('http://127.0.0.1:' + ports.proxy, function (res) {
+      expect(res.statusCode).to.be(502);
+      get('http://127.0.0.1:' + ports.proxy, function (res) {
+        expect(res.statusCode).to.be(429);
+        var metrics = proxy.metrics();
+        expect(find(metrics.requests, { status: '5xx' })).to.eql({
+          labels: { target: target, method: 'GET', status: '5xx' }, value: 1
+        });
+        expect(find(metrics.requests, { status: '4xx' }).value).to.be(1);
+        expect(find(metrics.errors, { code: 'ECONNREFUSED' }).value).to.be(1);
+        expect(find(metrics.inFlight, { target: target }).value).to.be(0);
+        expect(metrics.duration[0].count).to.be(2);
+        proxyServer.close();
+        done();
+      });
+    });
+  });
+
+  it('should track open websockets however they close', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = new ws.Server({ port: ports.source });
+    var proxy = httpProxy.createProxyServer({
+      target: 'ws://127.0.0.1:' + ports.source,
+      ws: true
+    }).listen(ports.proxy);
+    function open() {
+      var sample = proxy.metrics().webSockets[0];
+      return sample ? sample.value : 0;
+    }
+
+    proxy.on('open', function (proxySocket) {
+      expect(open()).to.be(1);
+      proxySocket.on('close', function () {
+        setImmediate(function () {
+          expect(open()).to.be(0);
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+    });
+    var client = new ws('ws://127.0.0.1:' + ports.proxy);
+    client.on('open', function () {
+      // no close handshake, the upstream never ends the connection itself
+      client.terminate();
+    });
+  });
+
+  it('should serve the Prometheus text format', function (done) {
+    var ports = { source: gen.port, proxy: gen.port, metrics: gen.port };
+    var source = http.createServer(function (req, res) { res.end(); }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source
+    }).listen(ports.proxy);
+    var metricsServer = http.createServer(proxy.metricsHandler).listen(ports.metrics);
+
+    get('http://127.0.0.1:' + ports.proxy, function () {
+      http.get('http://127.0.0.1:' + ports.metrics, function (res) {
+        var body = '';
+        expect(res.headers['content-type']).to.match(/^text\/plain; version=0.0.4/);
+        res.on('data', function (chunk) { body += chunk; });
+        res.on('end', function () {
+          var target = 'http://127.0.0.1:' + ports.source;
+          expect(body).to.contain('# TYPE http_proxy_requests_total counter\n');
+          expect(body).to.contain('http_proxy_requests_total{target="' + target + '",method="GET",status="2xx"} 1\n');
+          expect(body).to.contain('http_proxy_requests_in_flight{target="' + target + '"} 0\n');
+          expect(body).to.contain('http_proxy_request_duration_seconds_bucket{target="' + target + '",le="+Inf"} 1\n');
+          expect(body).to.contain('http_proxy_upstream_headers_seconds_count{target="' + target + '"} 1\n');
+          source.close();
+          proxy.close();
+          metricsServer.close();
+          done();
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5624, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// A target answering every request with `status` and `body`, passing
+// what it received to `onRequest`.
+//
+function target(port, status, body, onRequest) {
+  return http.createServer(function (req, res) {
+    var received = '';
+    req.on('data', function (chunk) { received += chunk; });
+    req.on('end', function () {
+      if (onRequest) onRequest(req, received);
+      res.writeHead(status, { 'content-type': 'text/plain' });
+      res.end(body);
+    });
+  }).listen(port);
+}
+
+function post(port, path, body, cb) {
+  var req = http.request({
+    hostname: '127.0.0.1',
+    port: port,
+    method: 'POST',
+    path: path,
+    headers: { 'content-type': 'text/plain' }
+  }, function (res) {
+    var received = '';
+    res.on('data', function (chunk) { received += chunk; });
+    res.on('end', function () { cb(res, received); });
+  });
+  req.end(body);
+}
+
+describe('lib/http-proxy.js mirror', function () {
+  it('should send a copy of the request to the mirror', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary');
+    var mirror = target(ports.mirror, 500, 'mirror', function (req, body) {
+      expect(req.method).to.be('POST');
+      expect(req.url).to.be('/orders?id=1');
+      expect(req.headers['content-type']).to.be('text/plain');
+      expect(body).to.be('order 1');
+      finish();
+    });
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror }
+    }).listen(ports.proxy);
+    var pending = 2;
+    function finish() {
+      if (--pending) return;
+      proxy.close();
+      source.close();
+      mirror.close();
+      done();
+    }
+
+    post(ports.proxy, '/orders?id=1', 'order 1', function (res, body) {
+      expect(res.statusCode).to.be(200);
+      expect(body).to.be('primary');
+      finish();
+    });
+  });
+
+  it('should isolate the errors of the mirror', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary');
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror }
+    }).listen(ports.proxy);
+    var pending = 2;
+    function finish() {
+      if (--pending) return;
+      proxy.close();
+      source.close();
+      done();
+    }
+
+    proxy.on('error', function (err) { throw err; });
+    proxy.on('mirrorError', function (err, req, mirrorTarget) {
+      expect(err.code).to.be('ECONNREFUSED');
+      expect(req.url).to.be('/');
+      expect(mirrorTarget.port).to.be(String(ports.mirror));
+      finish();
+    });
+    post(ports.proxy, '/', 'hello', function (res, body) {
+      expect(res.statusCode).to.be(200);
+      expect(body).to.be('primary');
+      finish();
+    });
+  });
+
+  it('should not wait for a slow mirror', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary');
+    var mirror = http.createServer(function () {}).listen(ports.mirror);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror, timeout: 100 }
+    }).listen(ports.proxy);
+    var answered = false;
+
+    proxy.on('mirrorError', function (err) {
+      expect(err.code).to.be('ETIMEDOUT');
+      expect(answered).to.be(true);
+      proxy.close();
+      source.close();
+      mirror.close();
+      done();
+    });
+    post(ports.proxy, '/', 'hello', function (res, body) {
+      expect(body).to.be('primary');
+      answered = true;
+    });
+  });
+
+  it('should only mirror the sampled percentage of requests', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary');
+    var mirror = target(ports.mirror, 200, 'mirror', function () {
+      throw new Error('request mirrored');
+    });
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror, percentage: 0 }
+    }).listen(ports.proxy);
+
+    post(ports.proxy, '/', 'hello', function (res, body) {
+      expect(body).to.be('primary');
+      setTimeout(function () {
+        proxy.close();
+        source.close();
+        mirror.close();
+        done();
+      }, 50);
+    });
+  });
+
+  it('should emit the differences between both responses', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary');
+    var mirror = target(ports.mirror, 500, 'mirror');
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror, compare: true }
+    }).listen(ports.proxy);
+
+    proxy.on('mirrorDiff', function (diff, req) {
+      expect(req.url).to.be('/compare');
+      expect(diff.target).to.be('http://127.0.0.1:' + ports.mirror);
+      expect(diff.statusMatch).to.be(false);
+      expect(diff.bodyMatch).to.be(false);
+      expect(diff.primary.status).to.be(200);
+      expect(diff.primary.body.toString()).to.be('primary');
+      expect(diff.mirror.status).to.be(500);
+      expect(diff.mirror.body.toString()).to.be('mirror');
+      proxy.close();
+      source.close();
+      mirror.close();
+      done();
+    });
+    post(ports.proxy, '/compare', 'hello', function (res, body) {
+      expect(body).to.be('primary');
+    });
+  });
+
+  it('should not mirror bodies larger than maxBodySize', function (done) {
+    var ports = { source: gen.port, mirror: gen.port, proxy: gen.port };
+    var source = target(ports.source, 200, 'primary', function (req, body) {
+      expect(body).to.be('a body of 24 bytes or so');
+    });
+    var mirror = target(ports.mirror, 200, 'mirror', function () {
+      throw new Error('request mirrored');
+    });
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      mirror: { target: 'http://127.0.0.1:' + ports.mirror, maxBodySize: 10 }
+    }).listen(ports.proxy);
+    var pending = 2;
+    function finish() {
+      if (--pending) return;
+      proxy.close();
+      source.close();
+      mirror.close();
+      done();
+    }
+
+    proxy.on('mirrorError', function (err) {
+      expect(err.code).to.be('EBODYTOOLARGE');
+      finish();
+    });
+    post(ports.proxy, '/', 'a body of 24 bytes or so', function (res, body) {
+      expect(body).to.be('primary');
+      finish();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+var pipeline = require('../module/http-proxy/pipeline'),
+    httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4524, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+describe('module/http-proxy/pipeline.js', function () {
+  describe('#runPasses', function () {
+    it('should run synchronous passes synchronously', function () {
+      var calls = [], result;
+      pipeline.runPasses([
+        function one(a) { calls.push('one ' + a); },
+        function two(a) { calls.push('two ' + a); }
+      ], ['x'], function (err, halted) {
+        result = [err, halted];
+      });
+      expect(calls).to.eql(['one x', 'two x']);
+      expect(result).to.eql([null, false]);
+    });
+
+    it('should halt on a truthy return value', function () {
+      var calls = [], halted;
+      pipeline.runPasses([
+        function one() { calls.push('one'); return true; },
+        function two() { calls.push('two'); }
+      ], [], function (err, h) { halted = h; });
+      expect(calls).to.eql(['one']);
+      expect(halted).to.be(true);
+    });
+
+    it('should await passes returning a promise', function (done) {
+      var calls = [];
+      pipeline.runPasses([
+        function one() {
+          return new Promise(function (resolve) {
+            setTimeout(function () { calls.push('one'); resolve(); }, 5);
+          });
+        },
+        function two() { calls.push('two'); return Promise.resolve(true); },
+        function three() { calls.push('three'); }
+      ], [], function (err, halted) {
+        expect(calls).to.eql(['one', 'two']);
+        expect(halted).to.be(true);
+        done();
+      });
+    });
+
+    it('should wait for next() when a pass declares it', function (done) {
+      var calls = [];
+      pipeline.runPasses([
+        function one(a, next) { setTimeout(function () { calls.push('one'); next(); }, 5); },
+        function two(a, next) { calls.push('two'); next(); },
+        function three(a) { calls.push('three'); }
+      ], ['x'], function (err, halted) {
+        expect(calls).to.eql(['one', 'two', 'three']);
+        expect(halted).to.be(false);
+        done();
+      });
+    });
+
+    it('should stop on errors thrown, rejected or passed to next', function () {
+      var errors = [];
+      function collect(err) { errors.push(err.message); }
+      pipeline.runPasses([function () { throw new Error('thrown'); }], [], collect);
+      pipeline.runPasses([function (next) { next(new Error('next')); }], [], collect);
+      return new Promise(function (resolve) {
+        pipeline.runPasses([function () { return Promise.reject(new Error('rejected')); }], [], function (err) {
+          collect(err);
+          expect(errors).to.eql(['thrown', 'next', 'rejected']);
+          resolve();
+        });
+      });
+    });
+  });
+
+  describe('#resolvePasses', function () {
+    it('should replace or transform the registered passes', function () {
+      var passes = [1, 2];
+      expect(pipeline.resolvePasses(passes)).to.be(passes);
+      expect(pipeline.resolvePasses(passes, [3])).to.eql([3]);
+      expect(pipeline.resolvePasses(passes, function (list) { return list.concat(3); })).to.eql([1, 2, 3]);
+      expect(passes).to.eql([1, 2]);
+    });
+  });
+
+  describe('registry', function () {
+    function pass() {}
+
+    it('should list the registered passes', function () {
+      var proxy = httpProxy.createProxyServer({});
+      expect(proxy.list('web')).to.eql(['cors', 'deleteLength', 'timeout', 'XHeaders', 'pathRewrite', 'rateLimit', 'authenticate', 'requestInterceptor', 'cache', 'circuitBreaker', 'stream']);
+      expect(proxy.list('outgoing')).to.contain('writeHeaders');
+    });
+
+    it('should insert before and after the named pass', function () {
+      var proxy = httpProxy.createProxyServer({});
+      proxy.before('web', 'timeout', function first() {});
+      proxy.after('web', 'timeout', function second() {});
+      expect(proxy.list('web').slice(0, 5)).to.eql(['cors', 'deleteLength', 'first', 'timeout', 'second']);
+    });
+
+    it('should remove and replace passes', function () {
+      var proxy = httpProxy.createProxyServer({});
+      proxy.remove('ws', 'XHeaders');
+      proxy.replace('outgoing', 'removeChunked', pass);
+      expect(proxy.list('ws')).to.not.contain('XHeaders');
+      expect(proxy.list('outgoing')[0]).to.be('pass');
+    });
+
+    it('should throw on unknown types and passes', function () {
+      var proxy = httpProxy.createProxyServer({});
+      expect(function () { proxy.before('nope', 'stream', pass); }).to.throwError(/type must be/);
+      expect(function () { proxy.remove('web', 'nope'); }).to.throwError(/No such pass/);
+    });
+  });
+
+  describe('#createProxyServer with async passes', function () {
+    it('should await an async pass before proxying', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var source = http.createServer(function (req, res) {
+        res.end(req.headers['x-user']);
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source
+      }).listen(ports.proxy);
+      proxy.before('web', 'stream', function lookup(req, res, options) {
+        return new Promise(function (resolve) {
+          setTimeout(function () {
+            options.headers = { 'x-user': 'alice' };
+            resolve();
+          }, 5);
+        });
+      });
+
+      http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+        var body = '';
+        res.on('data', function (chunk) { body += chunk; });
+        res.on('end', function () {
+          expect(body).to.be('alice');
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+
+    it('should emit errors of failing passes', function (done) {
+      var proxy = httpProxy.createProxyServer({ target: 'http://127.0.0.1:' + gen.port });
+      proxy.after('web', 'XHeaders', function fail(req, res, options, head, server, errorHandler, next) {
+        setImmediate(function () { next(new Error('lookup failed')); });
+      });
+      proxy.on('error', function (err) {
+        expect(err.message).to.be('lookup failed');
+        done();
+      });
+      proxy.web({ req: { method: 'GET', headers: {}, socket: {} }, res: {} });
+    });
+
+    it('should apply per-request pass overrides, outgoing passes included', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var source = http.createServer(function (req, res) {
+        res.end('ok');
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source
+      });
+      var proxyServer = http.createServer(function (req, res) {
+        proxy.web({ req: req, res: res, options: { passes: {
+          outgoing: function (passes) {
+            return passes.concat(function tag(req, res, upstreamRes, options, server, next) {
+              setImmediate(function () {
+                res.setHeader('x-tagged', 'yes');
+                next();
+              });
+            });
+          }
+        } } });
+      }).listen(ports.proxy);
+
+      http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+        expect(res.headers['x-tagged']).to.be('yes');
+        res.resume();
+        res.on('end', function () {
+          expect(proxy.list('outgoing')).to.not.contain('tag');
+          source.close();
+          proxyServer.close();
+          done();
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5824, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target and a proxy to it with the given `rateLimit`.
+//
+function setup(rateLimit, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var source = http.createServer(function (req, res) {
+    res.end('ok');
+  });
+  source.listen(ports.source, function () {
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      rateLimit: rateLimit
+    }).listen(ports.proxy);
+    cb(proxy, ports.proxy, function () {
+      proxy.close();
+      source.close();
+    });
+  });
+}
+
+//
+// Sends the requests one after the other, then calls `cb` with the
+// responses.
+//
+function sequence(port, requests, cb, responses) {
+  responses = responses || [];
+  if (!requests.length) return cb(responses);
+  var next = requests[0];
+  http.request({
+    hostname: '127.0.0.1',
+    port: port,
+    method: next.method || 'GET',
+    path: next.path || '/',
+    headers: next.headers || {}
+  }, function (res) {
+    res.resume();
+    res.on('end', function () {
+      responses.push(res);
+      sequence(port, requests.slice(1), cb, responses);
+    });
+  }).end();
+}
+
+function times(n, request) {
+  var requests = [];
+  for (var i = 0; i < n; i++) requests.push(request || {});
+  return requests;
+}
+
+describe('lib/http-proxy.js rateLimit', function () {
+  it('should answer requests beyond the limit with a 429', function (done) {
+    setup({ limit: 2, window: 60000 }, function (proxy, port, close) {
+      var limited;
+      proxy.on('rateLimit', function (result, req) {
+        limited = result;
+        expect(req.url).to.be('/');
+      });
+      sequence(port, times(3), function (responses) {
+        expect(responses[0].statusCode).to.be(200);
+        expect(responses[0].headers['ratelimit-limit']).to.be('2');
+        expect(responses[0].headers['ratelimit-remaining']).to.be('1');
+        expect(responses[0].headers['ratelimit-policy']).to.be('2;w=60');
+        expect(responses[1].statusCode).to.be(200);
+        expect(responses[1].headers['ratelimit-remaining']).to.be('0');
+        expect(responses[2].statusCode).to.be(429);
+        expect(responses[2].headers['retry-after']).to.be('30');
+        expect(limited.allowed).to.be(false);
+        expect(limited.key).to.match(/^default:127\.0\.0\.1$/);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should refill the token bucket over time', function (done) {
+    setup({ limit: 1, window: 100 }, function (proxy, port, close) {
+      sequence(port, times(2), function (responses) {
+        expect(responses[1].statusCode).to.be(429);
+        setTimeout(function () {
+          sequence(port, times(1), function (responses) {
+            expect(responses[0].statusCode).to.be(200);
+            close();
+            done();
+          });
+        }, 120);
+      });
+    });
+  });
+
+  it('should count requests in a sliding window', function (done) {
+    setup({ limit: 2, window: 60000, algorithm: 'sliding-window' }, function (proxy, port, close) {
+      sequence(port, times(3), function (responses) {
+        expect(responses.map(function (res) { return res.statusCode; })).to.eql([200, 200, 429]);
+        expect(Number(responses[2].headers['retry-after'])).to.be.greaterThan(0);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should key requests by header', function (done) {
+    setup({ limit: 1, key: { header: 'x-api-key' } }, function (proxy, port, close) {
+      sequence(port, [
+        { headers: { 'x-api-key': 'a' } },
+        { headers: { 'x-api-key': 'b' } },
+        { headers: { 'x-api-key': 'a' } }
+      ], function (responses) {
+        expect(responses.map(function (res) { return res.statusCode; })).to.eql([200, 200, 429]);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should count clients by trusted x-forwarded-for', function (done) {
+    setup({ limit: 1, trustedProxies: ['127.0.0.0/8'] }, function (proxy, port, close) {
+      var keys = [];
+      proxy.on('rateLimit', function (result) { keys.push(result.key); });
+      sequence(port, [
+        { headers: { 'x-forwarded-for': '10.0.0.1, 10.0.0.2' } },
+        { headers: { 'x-forwarded-for': '10.0.0.3' } },
+        { headers: { 'x-forwarded-for': '10.0.0.9, 10.0.0.2' } }
+      ], function (responses) {
+        expect(responses.map(function (res) { return res.statusCode; })).to.eql([200, 200, 429]);
+        expect(keys).to.eql(['default:10.0.0.2']);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should apply the first matching route', function (done) {
+    setup({
+      limit: 10,
+      routes: [
+        { path: '/login', method: 'POST', limit: 1 },
+        { path: /^\/health/, limit: 1000 }
+      ]
+    }, function (proxy, port, close) {
+      sequence(port, [
+        { path: '/login', method: 'POST' },
+        { path: '/login', method: 'POST' },
+        { path: '/login' },
+        { path: '/health' }
+      ], function (responses) {
+        expect(responses.map(function (res) { return res.statusCode; })).to.eql([200, 429, 200, 200]);
+        expect(responses[2].headers['ratelimit-limit']).to.be('10');
+        expect(responses[3].headers['ratelimit-limit']).to.be('1000');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should match the methods of routes whatever their case', function (done) {
+    setup({
+      routes: [{ method: ['get', 'Head'], limit: 1 }]
+    }, function (proxy, port, close) {
+      sequence(port, [{}, {}, { method: 'HEAD' }], function (responses) {
+        expect(responses.map(function (res) { return res.statusCode; })).to.eql([200, 429, 429]);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should reject websocket upgrades beyond the limit', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        rateLimit: { limit: 1 }
+      }).listen(ports.proxy);
+      var first = new ws('ws://127.0.0.1:' + ports.proxy);
+      first.on('open', function () {
+        var second = new ws('ws://127.0.0.1:' + ports.proxy);
+        second.on('error', function () {});
+        second.on('unexpected-response', function (req, res) {
+          expect(res.statusCode).to.be(429);
+          expect(res.headers['retry-after']).to.be('60');
+          req.destroy();
+          first.close();
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+    });
+  });
+});
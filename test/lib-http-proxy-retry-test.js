@@ -0,0 +1,199 @@
+var retry = require('../module/http-proxy/retry'),
+    httpProxy = require('../module'),
+    concat = require('concat-stream'),
+    expect = require('expect.js'),
+    stream = require('stream'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4224, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+describe('module/http-proxy/retry.js', function () {
+  describe('#retryPolicy', function () {
+    it('should return null when retries are disabled', function () {
+      expect(retry.retryPolicy(undefined, { method: 'GET' })).to.be(null);
+      expect(retry.retryPolicy({ attempts: 1 }, { method: 'GET' })).to.be(null);
+    });
+
+    it('should only allow idempotent methods by default', function () {
+      expect(retry.retryPolicy({}, { method: 'PUT' }).attempts).to.be(3);
+      expect(retry.retryPolicy({}, { method: 'POST' })).to.be(null);
+      expect(retry.retryPolicy({ methods: ['POST'] }, { method: 'POST' })).to.be.ok();
+    });
+  });
+
+  describe('#shouldRetry', function () {
+    it('should check the error code and remaining attempts', function () {
+      var policy = retry.retryPolicy({ attempts: 2 }, { method: 'GET' });
+      expect(retry.shouldRetry(policy, { code: 'ECONNREFUSED' }, 1)).to.be(true);
+      expect(retry.shouldRetry(policy, { code: 'ECONNREFUSED' }, 2)).to.be(false);
+      expect(retry.shouldRetry(policy, { code: 'EPROTO' }, 1)).to.be(false);
+    });
+  });
+
+  describe('#backoff', function () {
+    it('should grow exponentially up to maxDelay', function () {
+      var policy = { delay: 100, factor: 2, maxDelay: 300, jitter: false };
+      expect(retry.backoff(policy, 1)).to.be(100);
+      expect(retry.backoff(policy, 2)).to.be(200);
+      expect(retry.backoff(policy, 3)).to.be(300);
+    });
+
+    it('should stay within the backoff when jittered', function () {
+      var policy = { delay: 100, factor: 2, maxDelay: 300, jitter: true };
+      for (var i = 0; i < 20; i++) {
+        var delay = retry.backoff(policy, 2);
+        expect(delay).to.be.within(0, 200);
+      }
+    });
+  });
+
+  describe('ReplayableBody', function () {
+    it('should replay what was recorded and keep streaming the rest', function (done) {
+      var source = new stream.PassThrough();
+      var body = new retry.ReplayableBody(source, 100);
+      var first = new stream.PassThrough();
+
+      body.pipe(first);
+      first.resume();
+      source.write('hello ');
+
+      setImmediate(function () {
+        body.unpipe(first);
+        body.pipe(concat(function (data) {
+          expect(data.toString()).to.be('hello world');
+          done();
+        }));
+        source.end('world');
+      });
+    });
+
+    it('should stop being replayable past the limit', function (done) {
+      var source = new stream.PassThrough();
+      var body = new retry.ReplayableBody(source, 4);
+      source.resume();
+      source.end('too long');
+      source.on('end', function () {
+        expect(body.replayable).to.be(false);
+        expect(body.chunks).to.eql([]);
+        done();
+      });
+    });
+  });
+
+  describe('#createProxyServer with retry', function () {
+    it('should retry an idempotent request once the upstream is up', function (done) {
+      var sourcePort = gen.port, proxyPort = gen.port, source;
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + sourcePort,
+        retry: { attempts: 3, delay: 10, jitter: false }
+      }).listen(proxyPort);
+
+      var retries = [];
+      proxy.on('retry', function (err, req, res, target, attempt) {
+        retries.push(err.code + ' ' + attempt);
+        if (source) return;
+        source = http.createServer(function (req, res) {
+          req.pipe(concat(function (data) {
+            res.end('got ' + data);
+          }));
+        }).listen(sourcePort);
+      });
+
+      var req = http.request({
+        hostname: '127.0.0.1',
+        port: proxyPort,
+        method: 'PUT'
+      }, function (res) {
+        res.pipe(concat(function (data) {
+          expect(res.statusCode).to.be(200);
+          expect(data.toString()).to.be('got some body');
+          expect(retries).to.eql(['ECONNREFUSED 1']);
+          source.close();
+          proxy.close();
+          done();
+        }));
+      });
+      req.end('some body');
+    });
+
+    it('should send the whole body when it grows past the buffer after a failure', function (done) {
+      var sourcePort = gen.port, proxyPort = gen.port, source;
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + sourcePort,
+        retry: { attempts: 3, delay: 50, jitter: false, maxBufferSize: 10 }
+      }).listen(proxyPort);
+
+      var req = http.request({
+        hostname: '127.0.0.1',
+        port: proxyPort,
+        method: 'PUT'
+      }, function (res) {
+        res.pipe(concat(function (data) {
+          expect(res.statusCode).to.be(200);
+          expect(data.toString()).to.be('got first ' + new Array(21).join('x'));
+          source.close();
+          proxy.close();
+          done();
+        }));
+      });
+      proxy.on('retry', function () {
+        source = http.createServer(function (req, res) {
+          req.pipe(concat(function (data) {
+            res.end('got ' + data);
+          }));
+        }).listen(sourcePort);
+        req.end(new Array(21).join('x'));
+      });
+      req.write('first ');
+    });
+
+    it('should not retry non-idempotent requests', function (done) {
+      var proxyPort = gen.port;
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + gen.port,
+        retry: { delay: 10 }
+      }).listen(proxyPort);
+
+      proxy.on('retry', function () {
+        expect().fail('POST should not be retried');
+      });
+      proxy.on('error', function (err, req, res) {
+        expect(err.code).to.be('ECONNREFUSED');
+        res.end();
+        proxy.close();
+        done();
+      });
+
+      http.request({ hostname: '127.0.0.1', port: proxyPort, method: 'POST' }).end('x');
+    });
+
+    it('should give up after the configured attempts', function (done) {
+      var proxyPort = gen.port, attempts = [];
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + gen.port,
+        retry: { attempts: 3, delay: 1 }
+      }).listen(proxyPort);
+
+      proxy.on('retry', function (err, req, res, target, attempt) {
+        attempts.push(attempt);
+      });
+      proxy.on('error', function (err, req, res) {
+        expect(attempts).to.eql([1, 2]);
+        res.end();
+        proxy.close();
+        done();
+      });
+
+      http.get('http://127.0.0.1:' + proxyPort);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+var router = require('../module/http-proxy/router'),
+    httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4724, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function request(host, url, method, headers) {
+  return { url: url, method: method || 'GET', headers: Object.assign({ host: host }, headers) };
+}
+
+describe('module/http-proxy/router.js', function () {
+  describe('#route', function () {
+    var table = {
+      'api.example.com': 'http://svc:8080',
+      'api.example.com/v2': 'http://svc-v2:8080',
+      'api.example.com/v2/admin': 'http://admin:8080',
+      '/static': 'http://cdn:80'
+    };
+
+    it('should prefer the longest matching path prefix', function () {
+      expect(router.route(table, request('api.example.com', '/v2/admin/users'))).to.be('http://admin:8080');
+      expect(router.route(table, request('api.example.com:8000', '/v2?x=1'))).to.be('http://svc-v2:8080');
+      expect(router.route(table, request('API.example.com', '/v2admin'))).to.be('http://svc:8080');
+      expect(router.route(table, request('www.example.com', '/static/app.js'))).to.be('http://cdn:80');
+      expect(router.route(table, request('www.example.com', '/'))).to.be(undefined);
+    });
+
+    it('should match methods and headers of rules', function () {
+      var rules = [
+        { path: '/orders', target: 'http://orders:80' },
+        { path: '/orders', method: ['post', 'PUT'], target: 'http://orders-write:80' },
+        { path: '/orders', headers: { 'X-Canary': /^(1|true)$/ }, target: 'http://orders-canary:80' }
+      ];
+      expect(router.route(rules, request('h', '/orders'))).to.be('http://orders:80');
+      expect(router.route(rules, request('h', '/orders', 'POST'))).to.be('http://orders-write:80');
+      expect(router.route(rules, request('h', '/orders', 'GET', { 'x-canary': 'true' }))).to.be('http://orders-canary:80');
+    });
+
+    it('should fall back to functions when no rule matches', function () {
+      var rules = [
+        { host: 'a.example.com', target: 'http://a:80' },
+        function () { return null; },
+        function (req) { return 'http://' + req.headers.host.split('.')[0] + ':80'; }
+      ];
+      expect(router.route(rules, request('a.example.com', '/'))).to.be('http://a:80');
+      expect(router.route(rules, request('b.example.com', '/'))).to.be('http://b:80');
+    });
+
+    it('should resolve asynchronous functions', function () {
+      return router.route(function () {
+        return Promise.resolve('http://async:80');
+      }, request('h', '/')).then(function (target) {
+        expect(target).to.be('http://async:80');
+      });
+    });
+  });
+
+  describe('#createProxyServer with router option', function () {
+    it('should proxy to the routed target', function (done) {
+      var ports = { v1: gen.port, v2: gen.port, proxy: gen.port };
+      var v1 = http.createServer(function (req, res) { res.end('v1'); }).listen(ports.v1);
+      var v2 = http.createServer(function (req, res) { res.end('v2'); }).listen(ports.v2);
+      var routes = {};
+      routes['localhost/v2'] = 'http://127.0.0.1:' + ports.v2;
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.v1,
+        router: routes
+      }).listen(ports.proxy);
+
+      function get(path, cb) {
+        http.get({ host: '127.0.0.1', port: ports.proxy, path: path, headers: { host: 'localhost' } }, function (res) {
+          var body = '';
+          res.on('data', function (chunk) { body += chunk; });
+          res.on('end', function () { cb(body); });
+        });
+      }
+
+      get('/v2/users', function (body) {
+        expect(body).to.be('v2');
+        get('/users', function (body) {
+          expect(body).to.be('v1');
+          v1.close();
+          v2.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+
+    it('should wait for an asynchronous router', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var source = http.createServer(function (req, res) { res.end('routed'); }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        router: function () {
+          return new Promise(function (resolve) {
+            setTimeout(function () { resolve('http://127.0.0.1:' + ports.source); }, 5);
+          });
+        }
+      }).listen(ports.proxy);
+
+      http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+        var body = '';
+        res.on('data', function (chunk) { body += chunk; });
+        res.on('end', function () {
+          expect(body).to.be('routed');
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+
+    it('should emit errors of the router', function (done) {
+      var proxy = httpProxy.createProxyServer({
+        router: function () { return Promise.reject(new Error('lookup failed')); }
+      });
+      proxy.on('error', function (err) {
+        expect(err.message).to.be('lookup failed');
+        done();
+      });
+      proxy.web({ req: request('h', '/'), res: {} });
+    });
+  });
+});
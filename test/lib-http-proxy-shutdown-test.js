@@ -0,0 +1,124 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5224, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+describe('lib/http-proxy.js shutdown', function () {
+  it('should let requests in flight finish and refuse new ones', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var events = [];
+    var source = http.createServer(function (req, res) {
+      setTimeout(function () { res.end('slow'); }, 50);
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({ target: 'http://127.0.0.1:' + ports.source });
+    var proxyServer = http.createServer(function (req, res) {
+      proxy.web({ req: req, res: res });
+    }).listen(ports.proxy);
+    proxy.on('shutdown', function (remaining) { events.push(['shutdown', remaining]); });
+    proxy.on('drain', function (remaining) { events.push(['drain', remaining]); });
+    var agent = new http.Agent({ keepAlive: true });
+
+    http.get({ port: ports.proxy, agent: agent }, function (res) {
+      var body = '';
+      expect(res.headers.connection).to.be('close');
+      res.on('data', function (chunk) { body += chunk; });
+      res.on('end', function () {
+        expect(body).to.be('slow');
+        finish();
+      });
+    });
+    var pending = 3;
+    function finish() {
+      if (--pending) return;
+      agent.destroy();
+      source.close();
+      proxyServer.close();
+      done();
+    }
+    proxy.on('start', function () {
+      proxy.shutdown().then(function (result) {
+        expect(result).to.eql({ drained: 1, destroyed: 0 });
+        expect(events).to.eql([
+          ['shutdown', { web: 1, ws: 0 }],
+          ['drain', { web: 0, ws: 0 }]
+        ]);
+        finish();
+      });
+
+      http.get({ port: ports.proxy }, function (res) {
+        expect(res.statusCode).to.be(503);
+        res.resume();
+        res.on('end', finish);
+      });
+    });
+  });
+
+  it('should close websockets with a going away frame', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var proxy, pending = 3;
+    function finish() {
+      if (--pending) return;
+      expect(proxy._server).to.be(null);
+      destiny.close();
+      done();
+    }
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true
+      }).listen(ports.proxy);
+      var client = new ws('ws://127.0.0.1:' + ports.proxy);
+
+      client.on('open', function () {
+        proxy.shutdown({ timeout: 1000 }).then(function (result) {
+          expect(result).to.eql({ drained: 1, destroyed: 0 });
+          finish();
+        });
+      });
+      client.on('close', function (code) {
+        expect(code).to.be(1001);
+        finish();
+      });
+    });
+    destiny.on('connection', function (socket) {
+      socket.on('close', function (code) {
+        expect(code).to.be(1001);
+        finish();
+      });
+    });
+  });
+
+  it('should destroy what is left at the deadline', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var forced;
+    var source = http.createServer(function () {}).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source
+    }).listen(ports.proxy);
+    proxy.on('forceClose', function (remaining) { forced = remaining; });
+    proxy.on('error', function () {});
+
+    http.get({ port: ports.proxy }).on('error', function (err) {
+      expect(err.code).to.be('ECONNRESET');
+    });
+    proxy.on('start', function () {
+      proxy.shutdown({ timeout: 50 }).then(function (result) {
+        expect(result).to.eql({ drained: 0, destroyed: 1 });
+        expect(forced).to.eql({ web: 1, ws: 0 });
+        source.close();
+        done();
+      });
+    });
+  });
+});
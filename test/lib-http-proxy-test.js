@@ -321,6 +321,57 @@ describe('lib/http-proxy.js', function() {
   //   });
   // });
 
+  describe('#createProxyServer with pathRewrite option', function () {
+    it('should rewrite the path and report it on the start event', function (done) {
+      var ports = { source: gen.port, proxy: gen.port }, started;
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        pathRewrite: function (path) {
+          return new Promise(function (resolve) {
+            setTimeout(function () { resolve(path.replace(/^\/api/, '/v2')); }, 5);
+          });
+        }
+      }).listen(ports.proxy);
+      proxy.on('start', function (req, res, target, path) {
+        started = path;
+      });
+
+      var source = http.createServer(function (req, res) {
+        expect(req.url).to.be('/v2/users?page=2');
+        expect(started).to.be('/v2/users?page=2');
+        res.end();
+        source.close();
+        proxy.close();
+        done();
+      }).listen(ports.source);
+
+      http.request('http://127.0.0.1:' + ports.proxy + '/api/users?page=2').end();
+    });
+
+    it('should rewrite the path of websocket requests', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        pathRewrite: '/socket'
+      }).listen(ports.proxy);
+      var destiny = new ws.Server({ port: ports.source }, function () {
+        var client = new ws('ws://127.0.0.1:' + ports.proxy + '/socket/chat?room=1');
+        client.on('open', function () {
+          client.close();
+        });
+        client.on('close', function () {
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+      destiny.on('connection', function (socket, req) {
+        expect(req.url).to.be('/chat?room=1');
+      });
+    });
+  });
+
   describe('#createProxyServer using the ws-incoming passes', function () {
     it('should proxy the websockets stream', function (done) {
       var ports = { source: gen.port, proxy: gen.port };
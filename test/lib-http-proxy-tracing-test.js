@@ -0,0 +1,197 @@
+var httpProxy = require('../module'),
+    tracing = require('../module/http-proxy/tracing'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5124, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+var TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+var PARENT_ID = '00f067aa0ba902b7';
+
+describe('lib/http-proxy/tracing.js', function () {
+  describe('#parseTraceparent', function () {
+    it('should parse valid headers', function () {
+      expect(tracing.parseTraceparent('00-' + TRACE_ID + '-' + PARENT_ID + '-01')).to.eql({
+        traceId: TRACE_ID, parentId: PARENT_ID, flags: '01'
+      });
+      // future versions may append fields
+      expect(tracing.parseTraceparent('01-' + TRACE_ID + '-' + PARENT_ID + '-00-what-ever').traceId).to.be(TRACE_ID);
+    });
+
+    it('should reject invalid headers', function () {
+      [
+        undefined,
+        'garbage',
+        'ff-' + TRACE_ID + '-' + PARENT_ID + '-01',
+        '00-' + TRACE_ID + '-' + PARENT_ID + '-01-extra',
+        '00-' + TRACE_ID.toUpperCase() + '-' + PARENT_ID + '-01',
+        '00-00000000000000000000000000000000-' + PARENT_ID + '-01',
+        '00-' + TRACE_ID + '-0000000000000000-01'
+      ].forEach(function (header) {
+        expect(tracing.parseTraceparent(header)).to.be(null);
+      });
+    });
+  });
+});
+
+describe('lib/http-proxy.js tracing', function () {
+  it('should continue the trace of web requests in a child span', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var started = [], ended = [];
+    var source = http.createServer(function (req, res) {
+      var parts = req.headers.traceparent.split('-');
+      expect(parts[1]).to.be(TRACE_ID);
+      expect(parts[2]).to.be(started[0].spanId);
+      expect(parts[3]).to.be('01');
+      expect(req.headers.tracestate).to.be('vendor=value');
+      res.writeHead(204);
+      res.end();
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      tracing: {
+        onSpanStart: function (span) { started.push(span); },
+        onSpanEnd: function (span) { ended.push(span); }
+      }
+    }).listen(ports.proxy);
+
+    http.get({
+      port: ports.proxy,
+      path: '/users',
+      headers: {
+        traceparent: '00-' + TRACE_ID + '-' + PARENT_ID + '-01',
+        tracestate: 'vendor=value'
+      }
+    }, function (res) {
+      res.resume();
+      res.on('end', function () {
+        setImmediate(function () {
+          expect(ended).to.eql(started);
+          expect(ended[0].type).to.be('web');
+          expect(ended[0].parentId).to.be(PARENT_ID);
+          expect(ended[0].attributes).to.eql({
+            target: 'http://127.0.0.1:' + ports.source,
+            method: 'GET',
+            url: '/users',
+            retryCount: 0,
+            status: 204
+          });
+          expect(ended[0].endTime).to.not.be.lessThan(ended[0].startTime);
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should start a trace for requests without a valid traceparent', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var source = http.createServer(function (req, res) {
+      expect(req.headers.traceparent).to.match(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      expect(req.headers.tracestate).to.be(undefined);
+      res.end();
+    }).listen(ports.source);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + ports.source,
+      tracing: true
+    }).listen(ports.proxy);
+
+    http.get({
+      port: ports.proxy,
+      headers: { traceparent: 'garbage', tracestate: 'vendor=value' }
+    }, function (res) {
+      res.resume();
+      res.on('end', function () {
+        source.close();
+        proxy.close();
+        done();
+      });
+    });
+  });
+
+  it('should trace forward requests, retries and errors in spans of their own', function (done) {
+    var ports = { forward: gen.port, proxy: gen.port };
+    var ended = [];
+    var forward = http.createServer(function (req, res) {
+      req.resume();
+      res.writeHead(202);
+      res.end();
+    }).listen(ports.forward);
+    var proxy = httpProxy.createProxyServer({
+      target: 'http://127.0.0.1:' + gen.port,
+      forward: 'http://127.0.0.1:' + ports.forward,
+      retry: { attempts: 2, delay: 0 },
+      tracing: {
+        onSpanStart: function (span) {
+          // a tracer may hand out span ids of its own
+          if (span.type === 'web') span.spanId = 'a'.repeat(16);
+        },
+        onSpanEnd: function (span) { ended.push(span); }
+      }
+    }).listen(ports.proxy);
+    proxy.on('error', function (err, req, res) {
+      res.writeHead(502);
+      res.end();
+    });
+
+    http.get('http://127.0.0.1:' + ports.proxy, function (res) {
+      res.resume();
+      res.on('end', function () {
+        setImmediate(function () {
+          var spans = {};
+          ended.forEach(function (span) { spans[span.type] = span; });
+          expect(spans.forward.attributes.status).to.be(202);
+          expect(spans.web.spanId).to.be('aaaaaaaaaaaaaaaa');
+          expect(spans.web.attributes.errorCode).to.be('ECONNREFUSED');
+          expect(spans.web.attributes.retryCount).to.be(1);
+          expect(spans.web.attributes.status).to.be(undefined);
+          expect(spans.web.traceId).to.be(spans.forward.traceId);
+          expect(spans.web.spanId).to.not.be(spans.forward.spanId);
+          forward.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should trace websocket upgrades', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var traceparent;
+    var destiny = new ws.Server({ port: ports.source }, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        tracing: {
+          onSpanEnd: function (span) {
+            expect(span.type).to.be('ws');
+            expect(span.traceId).to.be(TRACE_ID);
+            expect(traceparent).to.be('00-' + TRACE_ID + '-' + span.spanId + '-01');
+            expect(span.attributes.status).to.be(101);
+            proxy.close();
+            destiny.close();
+            done();
+          }
+        }
+      }).listen(ports.proxy);
+      var client = new ws('ws://127.0.0.1:' + ports.proxy, {
+        headers: { traceparent: '00-' + TRACE_ID + '-' + PARENT_ID + '-01' }
+      });
+      client.on('open', function () { client.close(); });
+    });
+    destiny.on('connection', function (socket, req) {
+      traceparent = req.headers.traceparent;
+    });
+  });
+});
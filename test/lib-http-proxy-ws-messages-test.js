@@ -0,0 +1,180 @@
+var httpProxy = require('../module'),
+    frames = require('../module/http-proxy/ws-frames'),
+    expect = require('expect.js'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5324, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts an echo target and a proxy to it, calling back with a client.
+//
+function setup(proxyOptions, clientOptions, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var destiny = new ws.Server({
+    port: ports.source,
+    perMessageDeflate: clientOptions.perMessageDeflate
+  }, function () {
+    var proxy = httpProxy.createProxyServer(Object.assign({
+      target: 'ws://127.0.0.1:' + ports.source,
+      ws: true
+    }, proxyOptions)).listen(ports.proxy);
+    var client = new ws('ws://127.0.0.1:' + ports.proxy, clientOptions);
+    cb(proxy, client, destiny, function () {
+      proxy.close();
+      destiny.close();
+    });
+  });
+  destiny.on('connection', function (socket) {
+    socket.on('message', function (data, isBinary) {
+      socket.send(isBinary ? data : 'echo ' + data);
+    });
+  });
+}
+
+describe('lib/http-proxy/ws-frames.js', function () {
+  describe('#parseDeflate', function () {
+    it('should read the parameters per sender', function () {
+      expect(frames.parseDeflate('permessage-deflate; client_max_window_bits=10; server_no_context_takeover')).to.eql({
+        upstream: { noContextTakeover: false, maxWindowBits: 10 },
+        downstream: { noContextTakeover: true, maxWindowBits: 15 }
+      });
+      expect(frames.parseDeflate('x-webkit-deflate-frame')).to.be(null);
+      expect(frames.parseDeflate(undefined)).to.be(null);
+    });
+  });
+
+  describe('#encodeFrame', function () {
+    it('should pick the length encoding by size', function () {
+      expect(frames.encodeFrame(1, Buffer.from('hi'), false)).to.eql(Buffer.from([0x81, 2, 0x68, 0x69]));
+      var frame = frames.encodeFrame(2, Buffer.alloc(300), true);
+      expect(frame[1]).to.be(0x80 | 126);
+      expect(frame.readUInt16BE(2)).to.be(300);
+      expect(frame.length).to.be(4 + 4 + 300);
+      expect(frames.encodeFrame(2, Buffer.alloc(70000), false)[1]).to.be(127);
+    });
+  });
+});
+
+describe('lib/http-proxy.js wsMessages', function () {
+  it('should emit the messages of both directions', function (done) {
+    setup({ wsMessages: true }, { perMessageDeflate: false }, function (proxy, client, destiny, close) {
+      var messages = [];
+      proxy.on('wsMessage', function (message) {
+        messages.push([message.direction, message.opcode, message.payload.toString()]);
+      });
+      client.on('open', function () { client.send('hello'); });
+      client.on('message', function (data) {
+        expect(data.toString()).to.be('echo hello');
+        expect(messages).to.eql([
+          ['upstream', 1, 'hello'],
+          ['downstream', 1, 'echo hello']
+        ]);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should reassemble fragmented messages and relay control frames', function (done) {
+    setup({ wsMessages: true }, { perMessageDeflate: false }, function (proxy, client, destiny, close) {
+      var opcodes = [];
+      proxy.on('wsMessage', function (message) {
+        if (message.direction === 'upstream') opcodes.push(message.opcode);
+      });
+      client.on('open', function () {
+        client.send('hel', { fin: false });
+        client.ping('beat');
+        client.send('lo', { fin: true });
+      });
+      client.on('message', function (data) {
+        expect(data.toString()).to.be('echo hello');
+        expect(opcodes).to.eql([9, 1]);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should let the hook rewrite, drop and inject messages', function (done) {
+    setup({
+      wsMessages: {
+        intercept: function (message, context) {
+          var text = message.payload.toString();
+          if (text === 'drop me') return null;
+          if (message.direction === 'upstream') {
+            context.send('downstream', 'seen ' + text);
+            return Promise.resolve(text.toUpperCase());
+          }
+        }
+      }
+    }, { perMessageDeflate: false }, function (proxy, client, destiny, close) {
+      var received = [];
+      client.on('open', function () {
+        client.send('drop me');
+        client.send('hello');
+      });
+      client.on('message', function (data) {
+        received.push(data.toString());
+        if (received.length < 2) return;
+        expect(received).to.eql(['seen hello', 'echo HELLO']);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should inflate and deflate messages with permessage-deflate', function (done) {
+    var big = new Array(2000).join('compressible ');
+    setup({
+      wsMessages: {
+        intercept: function (message) {
+          if (message.direction === 'downstream') return message.payload.toString().replace('echo', 'ECHO');
+        }
+      }
+    }, { perMessageDeflate: { threshold: 0 } }, function (proxy, client, destiny, close) {
+      var payloads = [], received = 0;
+      proxy.on('wsMessage', function (message) {
+        if (message.direction === 'upstream') payloads.push(message.payload.toString());
+      });
+      client.on('open', function () {
+        // the second message refers back to the first one
+        client.send(big);
+        client.send(big);
+      });
+      client.on('message', function (data) {
+        expect(data.toString()).to.be('ECHO ' + big);
+        if (++received < 2) return;
+        expect(client.extensions).to.match(/permessage-deflate/);
+        expect(payloads).to.eql([big, big]);
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should close both ends on protocol errors', function (done) {
+    var error;
+    setup({ wsMessages: true }, { perMessageDeflate: false }, function (proxy, client, destiny, close) {
+      proxy.on('error', function (err) { error = err; });
+      client.on('open', function () {
+        // an unmasked frame, which clients must never send
+        client._socket.write(frames.encodeFrame(1, Buffer.from('raw'), false));
+      });
+      client.on('close', function (code) {
+        expect(code).to.be(1002);
+        expect(error.code).to.be('EWSPROTOCOL');
+        close();
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5524, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+function echo(port, cb) {
+  var server = new ws.Server({ port: port }, cb);
+  server.on('connection', function (socket) {
+    socket.on('message', function (data) { socket.send(data); });
+  });
+  return server;
+}
+
+describe('lib/http-proxy.js websocket registry', function () {
+  it('should list open websockets with their traffic', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = echo(ports.source, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true
+      }).listen(ports.proxy);
+      var client = new ws('ws://127.0.0.1:' + ports.proxy + '/feed?x=1');
+
+      client.on('open', function () { client.send('hello'); });
+      client.on('message', function () {
+        var connections = proxy.wsConnections();
+        expect(connections).to.have.length(1);
+        expect(connections[0]).to.eql({
+          id: connections[0].id,
+          clientAddress: connections[0].clientAddress,
+          target: 'ws://127.0.0.1:' + ports.source,
+          path: '/feed?x=1',
+          startTime: connections[0].startTime,
+          open: true,
+          bytesIn: connections[0].bytesIn,
+          bytesOut: connections[0].bytesOut
+        });
+        expect(connections[0].clientAddress).to.match(/127\.0\.0\.1$/);
+        expect(connections[0].bytesIn).to.be.greaterThan(5);
+        expect(connections[0].bytesOut).to.be.greaterThan(5);
+        expect(proxy.wsConnections({ path: '/other' })).to.eql([]);
+        client.close();
+        client.on('close', function () {
+          setImmediate(function () {
+            expect(proxy.wsConnections()).to.eql([]);
+            proxy.close();
+            destiny.close();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should close the websockets of a target with a close code', function (done) {
+    var ports = { first: gen.port, second: gen.port, proxy: gen.port };
+    var first = echo(ports.first), second = echo(ports.second);
+    var proxy = httpProxy.createProxyServer({
+      target: 'ws://127.0.0.1:' + ports.first,
+      ws: true
+    });
+    var proxyServer = http.createServer();
+    proxyServer.on('upgrade', function (req, socket, head) {
+      var target = req.url === '/second' ? ports.second : ports.first;
+      proxy.ws({ req: req, socket: socket, head: head, options: { target: 'ws://127.0.0.1:' + target } });
+    });
+    proxyServer.listen(ports.proxy, function () {
+      var a = new ws('ws://127.0.0.1:' + ports.proxy + '/first');
+      var b = new ws('ws://127.0.0.1:' + ports.proxy + '/second');
+      var opened = 0;
+      function open() {
+        if (++opened < 2) return;
+        expect(proxy.closeWsConnections({ target: 'ws://127.0.0.1:' + ports.first }, 1012)).to.be(1);
+      }
+      a.on('open', open);
+      b.on('open', open);
+      a.on('close', function (code) {
+        expect(code).to.be(1012);
+        expect(b.readyState).to.be(ws.OPEN);
+        expect(proxy.closeWsConnections(function (connection) {
+          return connection.path === '/second';
+        })).to.be(1);
+        b.on('close', function (code) {
+          expect(code).to.be(1001);
+          proxyServer.close();
+          first.close();
+          second.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should refuse upgrades beyond the limits with a 503', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = echo(ports.source, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        wsLimits: { perClient: 1 }
+      }).listen(ports.proxy);
+      var limit;
+      proxy.on('wsLimit', function (which) { limit = which; });
+      var first = new ws('ws://127.0.0.1:' + ports.proxy);
+
+      first.on('open', function () {
+        var second = new ws('ws://127.0.0.1:' + ports.proxy);
+        second.on('error', function () {});
+        second.on('unexpected-response', function (req, res) {
+          expect(res.statusCode).to.be(503);
+          expect(limit).to.be('perClient');
+          expect(proxy.wsConnections()).to.have.length(1);
+          req.destroy();
+          first.close();
+          proxy.close();
+          destiny.close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should tell clients behind trusted proxies apart', function (done) {
+    var ports = { source: gen.port, proxy: gen.port };
+    var destiny = echo(ports.source, function () {
+      var proxy = httpProxy.createProxyServer({
+        target: 'ws://127.0.0.1:' + ports.source,
+        ws: true,
+        trustedProxies: ['127.0.0.1', '::1'],
+        wsLimits: { perClient: 1 }
+      }).listen(ports.proxy);
+      function client(address) {
+        return new ws('ws://127.0.0.1:' + ports.proxy, {
+          headers: { 'x-forwarded-for': address }
+        });
+      }
+      var first = client('203.0.113.1');
+
+      first.on('open', function () {
+        var second = client('203.0.113.2');
+        second.on('open', function () {
+          var addresses = proxy.wsConnections().map(function (c) { return c.clientAddress; });
+          expect(addresses.sort()).to.eql(['203.0.113.1', '203.0.113.2']);
+          var third = client('203.0.113.1');
+          third.on('error', function () {});
+          third.on('unexpected-response', function (req, res) {
+            expect(res.statusCode).to.be(503);
+            req.destroy();
+            first.close();
+            second.close();
+            proxy.close();
+            destiny.close();
+            done();
+          });
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    net = require('net'),
+    ws = require('ws');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 5424, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+//
+// Starts a target and a proxy to it with the given `wsTimeouts`.
+//
+function setup(wsTimeouts, cb) {
+  var ports = { source: gen.port, proxy: gen.port };
+  var destiny = new ws.Server({ port: ports.source }, function () {
+    var proxy = httpProxy.createProxyServer({
+      target: 'ws://127.0.0.1:' + ports.source,
+      ws: true,
+      wsTimeouts: wsTimeouts
+    }).listen(ports.proxy);
+    cb(proxy, ports.proxy, destiny, function () {
+      proxy.close();
+      destiny.close();
+    });
+  });
+}
+
+describe('lib/http-proxy.js wsTimeouts', function () {
+  it('should ping both ends without relaying their pongs', function (done) {
+    setup({ pingInterval: 20 }, function (proxy, port, destiny, close) {
+      var client = new ws('ws://127.0.0.1:' + port);
+      var pings = 0;
+      client.on('ping', function (data) {
+        expect(data.toString()).to.be('http-proxy');
+        pings++;
+      });
+      client.on('pong', function () { throw new Error('pong of the target relayed'); });
+      destiny.on('connection', function (socket) {
+        socket.on('pong', function () { throw new Error('pong of the client relayed'); });
+        socket.on('ping', function () {
+          if (pings < 2) return;
+          client.close();
+        });
+      });
+      proxy.on('close', function (upstreamRes, upstreamSocket, head, reason) {
+        expect(reason).to.be('end');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should close websockets whose pongs are missing', function (done) {
+    setup({ pingInterval: 20, pongTimeout: 20 }, function (proxy, port, destiny, close) {
+      var received = Buffer.alloc(0);
+      // a client that never answers pings
+      var client = net.connect(port, '127.0.0.1', function () {
+        client.write(
+          'GET / HTTP/1.1\r\n' +
+          'Host: 127.0.0.1\r\n' +
+          'Connection: Upgrade\r\n' +
+          'Upgrade: websocket\r\n' +
+          'Sec-WebSocket-Version: 13\r\n' +
+          'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\n\r\n'
+        );
+      });
+      client.on('data', function (chunk) { received = Buffer.concat([received, chunk]); });
+      proxy.on('close', function (upstreamRes, upstreamSocket, head, reason) {
+        expect(reason).to.be('pongTimeout');
+        client.on('end', function () {
+          // a ping, then a close frame with 1001
+          expect(received.indexOf(Buffer.from([0x89, 10]))).to.not.be(-1);
+          expect(received.indexOf(Buffer.from([0x88, 2, 0x03, 0xe9]))).to.not.be(-1);
+          client.destroy();
+          close();
+          done();
+        });
+      });
+    });
+  });
+
+  it('should close idle websockets', function (done) {
+    setup({ idleTimeout: 50 }, function (proxy, port, destiny, close) {
+      var client = new ws('ws://127.0.0.1:' + port);
+      var reason;
+      client.on('open', function () { client.send('still here'); });
+      proxy.on('close', function (upstreamRes, upstreamSocket, head, why) { reason = why; });
+      client.on('close', function (code) {
+        expect(code).to.be(1001);
+        expect(reason).to.be('idleTimeout');
+        close();
+        done();
+      });
+    });
+  });
+
+  it('should close websockets at the end of their lifetime', function (done) {
+    setup({ idleTimeout: 50, maxLifetime: 100 }, function (proxy, port, destiny, close) {
+      var client = new ws('ws://127.0.0.1:' + port);
+      var reason, timer;
+      client.on('open', function () {
+        // busy enough to never be idle
+        timer = setInterval(function () { client.send('busy'); }, 10);
+      });
+      proxy.on('close', function (upstreamRes, upstreamSocket, head, why) { reason = why; });
+      client.on('close', function (code) {
+        clearInterval(timer);
+        expect(code).to.be(1001);
+        expect(reason).to.be('maxLifetime');
+        close();
+        done();
+      });
+    });
+  });
+});
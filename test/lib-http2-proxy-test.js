@@ -0,0 +1,152 @@
+var httpProxy = require('../module'),
+    expect = require('expect.js'),
+    http = require('http'),
+    https = require('https'),
+    http2 = require('http2'),
+    path = require('path'),
+    fs = require('fs');
+
+//
+// Expose a port number generator.
+// thanks to @3rd-Eden
+//
+var initialPort = 4824, gen = {};
+Object.defineProperty(gen, 'port', {
+  get: function get() {
+    return initialPort++;
+  }
+});
+
+var ssl = {
+  key: fs.readFileSync(path.join(__dirname, 'fixtures', 'agent2-key.pem')),
+  cert: fs.readFileSync(path.join(__dirname, 'fixtures', 'agent2-cert.pem'))
+};
+
+describe('lib/http-proxy.js HTTP/2', function () {
+  describe('HTTP/2 clients', function () {
+    it('should translate between HTTP/2 and an HTTP/1 target', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var source = http.createServer(function (req, res) {
+        expect(req.headers.host).to.be('localhost:' + ports.proxy);
+        expect(Object.keys(req.headers).filter(function (key) { return key[0] === ':'; })).to.eql([]);
+        expect(req.url).to.be('/users?page=2');
+        res.writeHead(201, 'Created', { 'keep-alive': 'timeout=5', 'x-source': 'http1' });
+        res.write('hello ');
+        res.end('http2');
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        ssl: ssl,
+        http2: true
+      }).listen(ports.proxy);
+
+      var client = http2.connect('https://localhost:' + ports.proxy, { rejectUnauthorized: false });
+      var req = client.request({ ':path': '/users?page=2' });
+      var body = '';
+      req.on('response', function (headers) {
+        expect(headers[':status']).to.be(201);
+        expect(headers['x-source']).to.be('http1');
+        expect(headers['keep-alive']).to.be(undefined);
+        expect(headers['transfer-encoding']).to.be(undefined);
+      });
+      req.on('data', function (chunk) { body += chunk; });
+      req.on('end', function () {
+        expect(body).to.be('hello http2');
+        client.close();
+        source.close();
+        proxy.close();
+        done();
+      });
+      req.end();
+    });
+
+    it('should fall back to HTTP/1.1 for clients without HTTP/2', function (done) {
+      var ports = { source: gen.port, proxy: gen.port };
+      var source = http.createServer(function (req, res) {
+        res.end('http1');
+      }).listen(ports.source);
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        ssl: ssl,
+        http2: true
+      }).listen(ports.proxy);
+
+      https.get({ host: 'localhost', port: ports.proxy, rejectUnauthorized: false }, function (res) {
+        var body = '';
+        expect(res.httpVersion).to.be('1.1');
+        res.on('data', function (chunk) { body += chunk; });
+        res.on('end', function () {
+          expect(body).to.be('http1');
+          source.close();
+          proxy.close();
+          done();
+        });
+      });
+    });
+  });
+
+  describe('upstreamHttp2 option', function () {
+    it('should send requests over one HTTP/2 session per target', function (done) {
+      var ports = { source: gen.port, proxy: gen.port }, sessions = 0;
+      var source = http2.createServer(function (req, res) {
+        var body = '';
+        expect(req.headers[':authority']).to.be('127.0.0.1:' + ports.proxy);
+        expect(req.headers.connection).to.be(undefined);
+        expect(req.headers.host).to.be(undefined);
+        req.on('data', function (chunk) { body += chunk; });
+        req.on('end', function () {
+          res.setHeader('set-cookie', ['a=1', 'b=2']);
+          res.writeHead(200, { 'x-method': req.method });
+          res.end(req.url + ' ' + body);
+        });
+      }).listen(ports.source);
+      source.on('session', function () { sessions++; });
+      var proxy = httpProxy.createProxyServer({
+        target: 'http://127.0.0.1:' + ports.source,
+        upstreamHttp2: true
+      }).listen(ports.proxy);
+
+      function post(cb) {
+        var req = http.request({ host: '127.0.0.1', port: ports.proxy, path: '/echo?x=1', method: 'POST' }, function (res) {
+          var body = '';
+          res.on('data', function (chunk) { body += chunk; });
+          res.on('end', function () { cb(res, body); });
+        });
+        req.end('payload');
+      }
+
+      post(function (res, body) {
+        expect(res.statusCode).to.be(200);
+        expect(res.headers['x-method']).to.be('POST');
+        expect(res.headers['set-cookie']).to.eql(['a=1', 'b=2']);
+        expect(body).to.be('/echo?x=1 payload');
+        post(function (res, body) {
+          expect(body).to.be('/echo?x=1 payload');
+          expect(sessions).to.be(1);
+          expect(proxy.sessions.sessions.size).to.be(1);
+          proxy.close();
+          source.close();
+          done();
+        });
+      });
+    });
+
+    it('should emit errors of unreachable HTTP/2 targets', function (done) {
+      var proxy = httpProxy.createProxyServer({
+        target: 'https://127.0.0.1:' + gen.port,
+        upstreamHttp2: true
+      });
+      var proxyServer = http.createServer(function (req, res) {
+        proxy.web({ req: req, res: res });
+      }).listen(gen.port);
+      proxy.on('error', function (err, req, res) {
+        expect(err.code).to.be('ECONNREFUSED');
+        res.end();
+        proxyServer.close();
+        done();
+      });
+
+      http.get('http://127.0.0.1:' + proxyServer.address().port).on('error', function () {});
+    });
+  });
+});